@@ -1,19 +1,51 @@
 #!/usr/bin/env node
 import { FastMCP } from "fastmcp";
+import { config } from "./lib/config.js";
+import { attachLogger, logger, withRequestLogging } from "./lib/logger.js";
+import { actorCareerPrompt } from "./prompts/actor-career.js";
+import { bingeNextPrompt } from "./prompts/binge-next.js";
+import { franchiseCatchUpPrompt } from "./prompts/franchise-catch-up.js";
+import { movieNightPrompt } from "./prompts/movie-night.js";
+import { imdbTitleResource } from "./resources/omdb-resources.js";
+import { serverDiagnosticsResource } from "./resources/server-resources.js";
+import {
+	tmdbCollectionResource,
+	tmdbMovieResource,
+	tmdbPersonResource,
+	tmdbTvResource,
+} from "./resources/tmdb-resources.js";
 import { omdbDetailsTool } from "./tools/omdb/omdb-details.js";
+import { serverDiagnosticsTool } from "./tools/server/server-diagnostics.js";
 import {
 	tmdbCollectionDetailsTool,
 	tmdbSearchCollectionsTool,
 } from "./tools/tmdb/tmdb-collections.js";
 import { tmdbDetailsTool } from "./tools/tmdb/tmdb-details.js";
+import { tmdbDiscoverTool } from "./tools/tmdb/tmdb-discover.js";
 import { tmdbDiscoverByActorTool } from "./tools/tmdb/tmdb-discover-by-actor.js";
+import { tmdbByExternalIdTool } from "./tools/tmdb/tmdb-external-id.js";
 import { tmdbGenreTool } from "./tools/tmdb/tmdb-genre.js";
+import { tmdbMovieDetailsTool } from "./tools/tmdb/tmdb-movie-details.js";
+import { tmdbPersonFilmographyTool } from "./tools/tmdb/tmdb-person-filmography.js";
 import { tmdbPopularTool } from "./tools/tmdb/tmdb-popular.js";
+import { tmdbRecommendationsTool } from "./tools/tmdb/tmdb-recommendations.js";
+import { tmdbReleaseCalendarTool } from "./tools/tmdb/tmdb-release-calendar.js";
+import { tmdbSearchTool } from "./tools/tmdb/tmdb-search.js";
 import { tmdbSearchMovieByTitleTool } from "./tools/tmdb/tmdb-search-movie-by-title.js";
 import { tmdbPersonSearchTool } from "./tools/tmdb/tmdb-search-person.js";
 import { tmdbSearchTvByTitleTool } from "./tools/tmdb/tmdb-search-tv-by-title.js";
 import { entertainmentSuggestionsTool } from "./tools/tmdb/tmdb-suggestions.js";
 import { tmdbTrendingTool } from "./tools/tmdb/tmdb-trending.js";
+import {
+	tmdbTvDetailsTool,
+	tmdbTvEpisodeTool,
+	tmdbTvSeasonTool,
+} from "./tools/tmdb/tmdb-tv-details.js";
+import {
+	tmdbDiscoverByProviderTool,
+	watchProviderListTool,
+	watchProvidersTool,
+} from "./tools/tmdb/tmdb-watch-providers.js";
 
 /**
  * Initializes and starts the TMDB MCP (Model Context Protocol) Server.
@@ -22,30 +54,82 @@ import { tmdbTrendingTool } from "./tools/tmdb/tmdb-trending.js";
  * detailed information about movies and TV shows.
  *
  * It uses FastMCP with stdio transport for integration with MCP-compatible clients
- * or AI agents .
+ * or AI agents, or serves Streamable HTTP (with SSE) so one instance can be
+ * shared, e.g. behind a reverse proxy.
  */
 async function main() {
 	const server = new FastMCP({
 		name: "TMDB MCP Server",
 		version: "1.0.0",
+		health: { enabled: true, path: "/health", message: "ok" },
 	});
+	attachLogger(server);
 
 	// Register all TMDB tools
-	server.addTool(tmdbDetailsTool);
-	server.addTool(omdbDetailsTool);
-	server.addTool(tmdbTrendingTool);
-	server.addTool(tmdbPopularTool);
-	server.addTool(tmdbGenreTool);
-	server.addTool(entertainmentSuggestionsTool);
-	server.addTool(tmdbPersonSearchTool);
-	server.addTool(tmdbDiscoverByActorTool);
-	server.addTool(tmdbSearchMovieByTitleTool);
-	server.addTool(tmdbSearchTvByTitleTool);
-	server.addTool(tmdbSearchCollectionsTool);
-	server.addTool(tmdbCollectionDetailsTool);
+	server.addTool(withRequestLogging(tmdbDetailsTool));
+	server.addTool(withRequestLogging(omdbDetailsTool));
+	server.addTool(withRequestLogging(tmdbTrendingTool));
+	server.addTool(withRequestLogging(tmdbPopularTool));
+	server.addTool(withRequestLogging(tmdbReleaseCalendarTool));
+	server.addTool(withRequestLogging(tmdbGenreTool));
+	server.addTool(withRequestLogging(tmdbDiscoverTool));
+	server.addTool(withRequestLogging(tmdbDiscoverByProviderTool));
+	server.addTool(withRequestLogging(watchProvidersTool));
+	server.addTool(withRequestLogging(watchProviderListTool));
+	server.addTool(withRequestLogging(entertainmentSuggestionsTool));
+	server.addTool(withRequestLogging(tmdbRecommendationsTool));
+	server.addTool(withRequestLogging(tmdbPersonSearchTool));
+	server.addTool(withRequestLogging(tmdbDiscoverByActorTool));
+	server.addTool(withRequestLogging(tmdbPersonFilmographyTool));
+	server.addTool(withRequestLogging(tmdbSearchTool));
+	server.addTool(withRequestLogging(tmdbByExternalIdTool));
+	server.addTool(withRequestLogging(tmdbSearchMovieByTitleTool));
+	server.addTool(withRequestLogging(tmdbSearchTvByTitleTool));
+	server.addTool(withRequestLogging(tmdbSearchCollectionsTool));
+	server.addTool(withRequestLogging(tmdbCollectionDetailsTool));
+	server.addTool(withRequestLogging(tmdbMovieDetailsTool));
+	server.addTool(withRequestLogging(tmdbTvDetailsTool));
+	server.addTool(withRequestLogging(tmdbTvSeasonTool));
+	server.addTool(withRequestLogging(tmdbTvEpisodeTool));
+	server.addTool(withRequestLogging(serverDiagnosticsTool));
+
+	// Register resources and resource templates
+	server.addResource(serverDiagnosticsResource);
+	server.addResourceTemplate(tmdbMovieResource);
+	server.addResourceTemplate(tmdbTvResource);
+	server.addResourceTemplate(tmdbPersonResource);
+	server.addResourceTemplate(tmdbCollectionResource);
+	server.addResourceTemplate(imdbTitleResource);
+
+	// Register prompts
+	server.addPrompt(movieNightPrompt);
+	server.addPrompt(franchiseCatchUpPrompt);
+	server.addPrompt(actorCareerPrompt);
+	server.addPrompt(bingeNextPrompt);
+
+	if (config.server.transport === "stdio") {
+		await server.start({
+			transportType: "stdio",
+		});
+		return;
+	}
+
+	const { host, port, endpoint } = config.server;
 	await server.start({
-		transportType: "stdio",
+		transportType: "httpStream",
+		httpStream: { host, port, endpoint: endpoint as `/${string}` },
 	});
+
+	let stopping = false;
+	const shutdown = async (signal: NodeJS.Signals) => {
+		if (stopping) process.exit(1);
+		stopping = true;
+		logger.info(`Received ${signal}, shutting down`);
+		await server.stop();
+		process.exit(0);
+	};
+	process.on("SIGTERM", shutdown);
+	process.on("SIGINT", shutdown);
 }
 
 // Start the MCP server
@@ -0,0 +1,211 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { config } from "./config.js";
+import { logger } from "./logger.js";
+import { describeError, stripCredentials } from "./redact.js";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Time-to-live for a family of endpoints, matched against the request URL.
+ */
+export interface CacheTtlRule {
+	pattern: RegExp;
+	ttlMs: number;
+}
+
+/**
+ * TTLs per endpoint family. The first matching rule wins; URLs that match
+ * no rule fall back to `fallbackTtlMs`.
+ */
+export const cacheTtlRules: CacheTtlRule[] = [
+	{ pattern: /\/genre\/(movie|tv)\/list/, ttlMs: 7 * DAY },
+	{ pattern: /\/trending\//, ttlMs: 15 * MINUTE },
+	{ pattern: /\/(movie|tv)\/popular/, ttlMs: HOUR },
+	{ pattern: /\/watch\/providers/, ttlMs: 6 * HOUR },
+	{ pattern: /\/(search|discover)\//, ttlMs: HOUR },
+	{ pattern: /\/(movie|tv|person|collection)\/\d+/, ttlMs: 12 * HOUR },
+	{ pattern: /omdbapi\.com/, ttlMs: DAY },
+];
+
+const fallbackTtlMs = 10 * MINUTE;
+
+interface CacheEntry {
+	value: unknown;
+	expiresAt: number;
+}
+
+interface CacheFile {
+	version: 1;
+	entries: [string, CacheEntry][];
+}
+
+export interface ResponseCacheOptions {
+	enabled: boolean;
+	filePath: string;
+	maxEntries: number;
+	clearOnStartup: boolean;
+}
+
+/**
+ * File-backed cache for upstream JSON responses.
+ *
+ * Entries live in memory in least-recently-used order and are written back
+ * to `filePath` shortly after every change, so they survive restarts and are
+ * shared by every service instance in the process. Once `maxEntries` is
+ * exceeded the least recently used entries are evicted.
+ */
+export class ResponseCache {
+	private entries = new Map<string, CacheEntry>();
+	private loaded = false;
+	private saveTimer: NodeJS.Timeout | null = null;
+	private hits = 0;
+	private misses = 0;
+
+	constructor(private readonly options: ResponseCacheOptions) {}
+
+	/**
+	 * Lookups served from and missed by the cache since startup, and the
+	 * number of entries held.
+	 */
+	get stats(): { hits: number; misses: number; entries: number } {
+		return { hits: this.hits, misses: this.misses, entries: this.entries.size };
+	}
+
+	/**
+	 * Returns the cached response for `url`, if present and not expired.
+	 */
+	get(url: string): unknown | undefined {
+		if (!this.options.enabled) return undefined;
+		this.load();
+
+		// Credentials never reach the disk.
+		const key = stripCredentials(url);
+		const entry = this.entries.get(key);
+		if (!entry) {
+			this.misses++;
+			return undefined;
+		}
+
+		if (entry.expiresAt <= Date.now()) {
+			this.misses++;
+			this.entries.delete(key);
+			this.scheduleSave();
+			return undefined;
+		}
+
+		this.hits++;
+
+		// Re-insert to mark the entry as most recently used.
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return entry.value;
+	}
+
+	/**
+	 * Stores a response for `url` using the TTL of its endpoint family.
+	 */
+	set(url: string, value: unknown) {
+		if (!this.options.enabled) return;
+		this.load();
+
+		const key = stripCredentials(url);
+		this.entries.delete(key);
+		this.entries.set(key, { value, expiresAt: Date.now() + ttlFor(url) });
+
+		for (const oldest of this.entries.keys()) {
+			if (this.entries.size <= this.options.maxEntries) break;
+			this.entries.delete(oldest);
+		}
+
+		this.scheduleSave();
+	}
+
+	private load() {
+		if (this.loaded) return;
+		this.loaded = true;
+		process.once("exit", () => this.flushSync());
+
+		if (this.options.clearOnStartup) {
+			// Overwrite whatever was persisted by a previous run.
+			this.scheduleSave();
+			return;
+		}
+
+		try {
+			const file = JSON.parse(
+				readFileSync(this.options.filePath, "utf8"),
+			) as CacheFile;
+			const now = Date.now();
+			for (const [key, entry] of file.entries) {
+				if (entry.expiresAt > now) this.entries.set(key, entry);
+			}
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+				logger.warning(
+					`Ignoring unreadable response cache at ${this.options.filePath}`,
+					{ error: describeError(error) },
+				);
+			}
+		}
+	}
+
+	private serialize(): string {
+		const file: CacheFile = { version: 1, entries: [...this.entries] };
+		return JSON.stringify(file);
+	}
+
+	private scheduleSave() {
+		if (this.saveTimer) return;
+
+		this.saveTimer = setTimeout(() => {
+			this.saveTimer = null;
+			this.save().catch((error) =>
+				logger.error(
+					`Failed to write response cache to ${this.options.filePath}`,
+					{ error: describeError(error) },
+				),
+			);
+		}, 1000);
+		this.saveTimer.unref();
+	}
+
+	private async save() {
+		const tmpPath = `${this.options.filePath}.tmp`;
+		await mkdir(dirname(this.options.filePath), { recursive: true });
+		await writeFile(tmpPath, this.serialize());
+		await rename(tmpPath, this.options.filePath);
+	}
+
+	private flushSync() {
+		if (!this.saveTimer) return;
+		clearTimeout(this.saveTimer);
+		this.saveTimer = null;
+
+		try {
+			const tmpPath = `${this.options.filePath}.tmp`;
+			mkdirSync(dirname(this.options.filePath), { recursive: true });
+			writeFileSync(tmpPath, this.serialize());
+			renameSync(tmpPath, this.options.filePath);
+		} catch (error) {
+			logger.error(
+				`Failed to write response cache to ${this.options.filePath}`,
+				{ error: describeError(error) },
+			);
+		}
+	}
+}
+
+function ttlFor(url: string): number {
+	return (
+		cacheTtlRules.find((rule) => rule.pattern.test(url))?.ttlMs ?? fallbackTtlMs
+	);
+}
+
+/**
+ * Process-wide response cache shared by the TMDB and OMDB services.
+ */
+export const responseCache = new ResponseCache(config.cache);
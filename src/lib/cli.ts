@@ -0,0 +1,61 @@
+import { parseArgs } from "node:util";
+
+/**
+ * Command-line flags and the setting each one overrides. Flags take
+ * precedence over environment variables and the config file.
+ */
+export const cliFlags: Record<string, string[]> = {
+	transport: ["server", "transport"],
+	host: ["server", "host"],
+	port: ["server", "port"],
+	endpoint: ["server", "endpoint"],
+};
+
+export const usage = `Usage: tmbd-mcp [options]
+
+Options:
+  --transport <stdio|httpStream>  Transport to serve MCP over (default: stdio)
+  --host <host>                   Interface the HTTP server binds to (default: localhost)
+  --port <port>                   Port the HTTP server listens on (default: 8080)
+  --endpoint <path>               Path of the MCP endpoint (default: /mcp)
+  --config <file>                 JSON or YAML config file
+  -h, --help                      Show this help
+
+Every setting can also be provided as an environment variable; see the README.`;
+
+/**
+ * Parsed command line.
+ */
+export interface CliArgs {
+	help: boolean;
+	configFile?: string;
+	/** Values of the flags in `cliFlags` that were given, by flag name. */
+	overrides: Record<string, string>;
+}
+
+/**
+ * Parses the server's command-line arguments.
+ *
+ * @throws TypeError for unknown flags or missing flag values
+ */
+export function parseCliArgs(args: string[]): CliArgs {
+	const { values } = parseArgs({
+		args,
+		options: {
+			...Object.fromEntries(
+				Object.keys(cliFlags).map((flag) => [flag, { type: "string" }]),
+			),
+			config: { type: "string" },
+			help: { type: "boolean", short: "h" },
+		},
+		strict: true,
+		allowPositionals: false,
+	});
+
+	const { help, config, ...overrides } = values;
+	return {
+		help: help === true,
+		configFile: typeof config === "string" ? config : undefined,
+		overrides: overrides as Record<string, string>,
+	};
+}
@@ -1,17 +1,277 @@
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { extname, join } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { type CliArgs, cliFlags, parseCliArgs, usage } from "./cli.js";
+
 /**
- * Configuration object for the MCP weather server.
+ * Accepts real booleans (config file) as well as "true"/"false" (env vars).
+ */
+const booleanSetting = z.union([
+	z.boolean(),
+	z.enum(["true", "false"]).transform((value) => value === "true"),
+]);
+
+const positiveInt = z.coerce.number().int().positive();
+
+const imageSize = z
+	.string()
+	.regex(/^(w\d+|h\d+|original)$/, 'Expected a TMDB image size like "w500"');
+
+const logLevel = z.enum([
+	"debug",
+	"info",
+	"notice",
+	"warning",
+	"error",
+	"critical",
+	"alert",
+	"emergency",
+]);
+
+/**
+ * Schema for the server configuration.
+ */
+const configSchema = z.object({
+	server: z
+		.object({
+			transport: z.enum(["stdio", "httpStream"]).default("stdio"),
+			host: z.string().min(1).default("localhost"),
+			port: z.coerce.number().int().min(1).max(65535).default(8080),
+			endpoint: z
+				.string()
+				.regex(/^\/\S*$/, 'Expected a path starting with "/"')
+				.default("/mcp"),
+		})
+		.prefault({}),
+	tmdbApi: z
+		.object({
+			baseUrl: z.url().default("https://api.themoviedb.org/3"),
+			apiKey: z.string().default(""),
+			accessToken: z.string().default(""),
+			imageBaseUrl: z.url().default("https://image.tmdb.org/t/p"),
+			imageSizes: z
+				.object({
+					poster: imageSize.default("w500"),
+					backdrop: imageSize.default("w500"),
+					profile: imageSize.default("w500"),
+					logo: imageSize.default("w92"),
+				})
+				.prefault({}),
+			language: z
+				.string()
+				.regex(
+					/^[a-z]{2}(-[A-Z]{2})?$/,
+					'Expected a language code like "en-US"',
+				)
+				.default("en-US"),
+			watchRegion: z
+				.string()
+				.regex(/^[A-Z]{2}$/, 'Expected a country code like "US"')
+				.default("IN"),
+			requestsPerSecond: positiveInt.default(20),
+		})
+		.prefault({}),
+	omdbApi: z
+		.object({
+			baseUrl: z.url().default("https://www.omdbapi.com"),
+			apiKey: z.string().default(""),
+			requestsPerSecond: positiveInt.default(10),
+		})
+		.prefault({}),
+	http: z
+		.object({
+			maxConcurrentRequests: positiveInt.default(8),
+			requestsPerSecond: positiveInt.default(10),
+			requestTimeoutMs: positiveInt.default(10000),
+			toolDeadlineMs: positiveInt.default(60000),
+			mode: z.enum(["live", "record", "replay"]).default("live"),
+			fixturesDir: z.string().min(1).default("fixtures"),
+		})
+		.prefault({}),
+	cache: z
+		.object({
+			enabled: booleanSetting.default(true),
+			clearOnStartup: booleanSetting.default(false),
+			filePath: z
+				.string()
+				.min(1)
+				.default(
+					join(homedir(), ".cache", "entertainment-mcp", "responses.json"),
+				),
+			maxEntries: positiveInt.default(2000),
+		})
+		.prefault({}),
+	logging: z
+		.object({
+			level: logLevel.default("info"),
+			filePath: z.string().default(""),
+		})
+		.prefault({}),
+});
+
+export type Config = z.infer<typeof configSchema>;
+
+/**
+ * Environment variables and the setting each one overrides. Environment
+ * variables take precedence over the config file.
+ */
+const envVars: Record<string, string[]> = {
+	MCP_TRANSPORT: ["server", "transport"],
+	MCP_HOST: ["server", "host"],
+	MCP_PORT: ["server", "port"],
+	MCP_ENDPOINT: ["server", "endpoint"],
+	TMDB_API_KEY: ["tmdbApi", "apiKey"],
+	TMDB_ACCESS_TOKEN: ["tmdbApi", "accessToken"],
+	TMDB_BASE_URL: ["tmdbApi", "baseUrl"],
+	TMDB_IMAGE_BASE_URL: ["tmdbApi", "imageBaseUrl"],
+	TMDB_POSTER_SIZE: ["tmdbApi", "imageSizes", "poster"],
+	TMDB_BACKDROP_SIZE: ["tmdbApi", "imageSizes", "backdrop"],
+	TMDB_PROFILE_SIZE: ["tmdbApi", "imageSizes", "profile"],
+	TMDB_LOGO_SIZE: ["tmdbApi", "imageSizes", "logo"],
+	TMDB_LANGUAGE: ["tmdbApi", "language"],
+	TMDB_WATCH_REGION: ["tmdbApi", "watchRegion"],
+	TMDB_REQUESTS_PER_SECOND: ["tmdbApi", "requestsPerSecond"],
+	OMDB_API_KEY: ["omdbApi", "apiKey"],
+	OMDB_BASE_URL: ["omdbApi", "baseUrl"],
+	OMDB_REQUESTS_PER_SECOND: ["omdbApi", "requestsPerSecond"],
+	HTTP_MAX_CONCURRENT_REQUESTS: ["http", "maxConcurrentRequests"],
+	HTTP_REQUESTS_PER_SECOND: ["http", "requestsPerSecond"],
+	HTTP_REQUEST_TIMEOUT_MS: ["http", "requestTimeoutMs"],
+	TOOL_DEADLINE_MS: ["http", "toolDeadlineMs"],
+	HTTP_MODE: ["http", "mode"],
+	HTTP_FIXTURES_DIR: ["http", "fixturesDir"],
+	CACHE_ENABLED: ["cache", "enabled"],
+	CACHE_CLEAR_ON_STARTUP: ["cache", "clearOnStartup"],
+	CACHE_FILE: ["cache", "filePath"],
+	CACHE_MAX_ENTRIES: ["cache", "maxEntries"],
+	LOG_LEVEL: ["logging", "level"],
+	LOG_FILE: ["logging", "filePath"],
+};
+
+/**
+ * Raised when the configuration cannot be read or fails validation.
+ * The message lists every problem found.
+ */
+export class ConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ConfigError";
+	}
+}
+
+type RawConfig = Record<string, unknown>;
+
+function setPath(target: RawConfig, path: string[], value: unknown) {
+	let node = target;
+	for (const key of path.slice(0, -1)) {
+		if (typeof node[key] !== "object" || node[key] === null) node[key] = {};
+		node = node[key] as RawConfig;
+	}
+	node[path[path.length - 1]] = value;
+}
+
+function readConfigFile(path: string): RawConfig {
+	let contents: string;
+	try {
+		contents = readFileSync(path, "utf8");
+	} catch (error) {
+		throw new ConfigError(
+			`Cannot read config file ${path}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+
+	let parsed: unknown;
+	try {
+		const ext = extname(path).toLowerCase();
+		parsed =
+			ext === ".yaml" || ext === ".yml"
+				? parseYaml(contents)
+				: JSON.parse(contents);
+	} catch (error) {
+		throw new ConfigError(
+			`Cannot parse config file ${path}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+
+	if (parsed === null || parsed === undefined) return {};
+	if (typeof parsed !== "object" || Array.isArray(parsed)) {
+		throw new ConfigError(`Config file ${path} must contain an object`);
+	}
+	return parsed as RawConfig;
+}
+
+/**
+ * Loads the configuration from the optional JSON or YAML file (`--config` or
+ * `ENTERTAINMENT_MCP_CONFIG`), applies environment variable and command-line
+ * overrides and validates the result. Empty environment variables count as
+ * unset.
+ *
+ * @throws ConfigError listing every invalid setting
+ */
+export function loadConfig(
+	env: NodeJS.ProcessEnv = process.env,
+	cli: CliArgs = { help: false, overrides: {} },
+): Config {
+	const configFile = cli.configFile ?? env.ENTERTAINMENT_MCP_CONFIG;
+	const raw = configFile ? readConfigFile(configFile) : {};
+
+	for (const [name, path] of Object.entries(envVars)) {
+		const value = env[name];
+		if (value !== undefined && value !== "") setPath(raw, path, value);
+	}
+	for (const [flag, value] of Object.entries(cli.overrides)) {
+		setPath(raw, cliFlags[flag], value);
+	}
+
+	const result = configSchema.safeParse(raw);
+	if (result.success) return result.data;
+
+	const problems = result.error.issues.map((issue) => {
+		const path = issue.path.join(".");
+		const sources = [
+			...Object.keys(cliFlags)
+				.filter((flag) => cliFlags[flag].join(".") === path)
+				.map((flag) => `--${flag}`),
+			...Object.keys(envVars).filter(
+				(name) => envVars[name].join(".") === path,
+			),
+		];
+		return `  - ${path}${sources.length ? ` (${sources.join(", ")})` : ""}: ${issue.message}`;
+	});
+	throw new ConfigError(`Invalid configuration:\n${problems.join("\n")}`);
+}
+
+function loadConfigOrExit(): Config {
+	try {
+		let cli: CliArgs;
+		try {
+			cli = parseCliArgs(process.argv.slice(2));
+		} catch (error) {
+			throw new ConfigError(
+				`${error instanceof Error ? error.message : String(error)}\n\n${usage}`,
+			);
+		}
+		if (cli.help) {
+			console.log(usage);
+			process.exit(0);
+		}
+		return loadConfig(process.env, cli);
+	} catch (error) {
+		if (error instanceof ConfigError) {
+			console.error(error.message);
+			process.exit(1);
+		}
+		throw error;
+	}
+}
+
+/**
+ * Configuration object for the entertainment MCP server.
  *
  * Centralizes all configuration values including API endpoints,
- * authentication keys, and default settings. Reads sensitive values
- * from environment variables for security.
+ * authentication keys, and default settings. Validated once at startup;
+ * an invalid configuration stops the server before it serves any request.
  */
-export const config = {
-	tmdbApi: {
-		baseUrl: "https://api.themoviedb.org/3",
-		apiKey: process.env.TMDB_API_KEY || "",
-	},
-	omdbApi: {
-		baseUrl: "https://www.omdbapi.com",
-		apiKey: process.env.OMDB_API_KEY || "",
-	},
-};
+export const config = loadConfigOrExit();
@@ -0,0 +1,168 @@
+import { UserError } from "fastmcp";
+import { redactSecrets } from "./redact.js";
+
+/**
+ * Stable, machine-readable error codes reported to MCP clients.
+ */
+export type ErrorCode =
+	| "MISSING_API_KEY"
+	| "AUTH_REJECTED"
+	| "NOT_FOUND"
+	| "RATE_LIMITED"
+	| "UPSTREAM_UNAVAILABLE"
+	| "INVALID_RESPONSE"
+	| "UPSTREAM_ERROR"
+	| "UNKNOWN_ERROR";
+
+/**
+ * Custom error class for HTTP-related errors.
+ *
+ * Extends the standard Error class to include HTTP status codes and
+ * optional response data for better error handling and debugging.
+ * A status of 0 means no response was received. Subclasses narrow the
+ * failure down to a specific error code. Credentials are redacted from the
+ * message and from textual response data.
+ */
+export class HttpError extends Error {
+	readonly code: ErrorCode = "UPSTREAM_ERROR";
+	readonly data?: unknown;
+
+	constructor(
+		public readonly status: number,
+		message: string,
+		data?: unknown,
+		options?: ErrorOptions,
+	) {
+		super(redactSecrets(message), options);
+		this.name = "HttpError";
+		this.data = typeof data === "string" ? redactSecrets(data) : data;
+	}
+}
+
+/**
+ * Raised before any request is made when a required API key is not set.
+ */
+export class MissingApiKeyError extends HttpError {
+	override readonly code = "MISSING_API_KEY";
+
+	constructor(api: string, envVar: string) {
+		super(
+			0,
+			`${api} API key is not configured. Please set the ${envVar} environment variable.`,
+		);
+		this.name = "MissingApiKeyError";
+	}
+}
+
+/**
+ * The upstream API rejected the configured credentials (401/403).
+ */
+export class AuthRejectedError extends HttpError {
+	override readonly code = "AUTH_REJECTED";
+
+	constructor(status: number, message: string, data?: unknown) {
+		super(status, message, data);
+		this.name = "AuthRejectedError";
+	}
+}
+
+/**
+ * The requested resource does not exist upstream (404).
+ */
+export class NotFoundError extends HttpError {
+	override readonly code = "NOT_FOUND";
+
+	constructor(message: string, data?: unknown) {
+		super(404, message, data);
+		this.name = "NotFoundError";
+	}
+}
+
+/**
+ * The upstream API is throttling requests (429).
+ */
+export class RateLimitedError extends HttpError {
+	override readonly code = "RATE_LIMITED";
+
+	constructor(
+		message: string,
+		data?: unknown,
+		public readonly retryAfterMs?: number,
+	) {
+		super(429, message, data);
+		this.name = "RateLimitedError";
+	}
+}
+
+/**
+ * The upstream API could not be reached, timed out or failed with a 5xx.
+ */
+export class UpstreamUnavailableError extends HttpError {
+	override readonly code = "UPSTREAM_UNAVAILABLE";
+
+	constructor(
+		status: number,
+		message: string,
+		data?: unknown,
+		options?: ErrorOptions,
+	) {
+		super(status, message, data, options);
+		this.name = "UpstreamUnavailableError";
+	}
+}
+
+/**
+ * The upstream API answered, but not with the JSON shape we expect.
+ */
+export class InvalidResponseError extends HttpError {
+	override readonly code = "INVALID_RESPONSE";
+
+	constructor(
+		status: number,
+		message: string,
+		data?: unknown,
+		options?: ErrorOptions,
+	) {
+		super(status, message, data, options);
+		this.name = "InvalidResponseError";
+	}
+}
+
+/**
+ * Maps a non-OK HTTP response to the matching error class.
+ */
+export function errorFromResponse(
+	status: number,
+	statusText: string,
+	data: unknown,
+	retryAfterMs?: number,
+): HttpError {
+	const message = `HTTP error ${status}: ${statusText}`;
+
+	if (status === 401 || status === 403) {
+		return new AuthRejectedError(status, message, data);
+	}
+	if (status === 404) return new NotFoundError(message, data);
+	if (status === 429) return new RateLimitedError(message, data, retryAfterMs);
+	if (status >= 500) return new UpstreamUnavailableError(status, message, data);
+	return new HttpError(status, message, data);
+}
+
+/**
+ * Converts an error raised while serving a tool call into a UserError,
+ * which FastMCP reports to the client as a tool error (`isError: true`)
+ * with the error code as structured content.
+ */
+export function toUserError(error: unknown, context: string): UserError {
+	if (error instanceof HttpError) {
+		return new UserError(`${context} (${error.code}): ${error.message}`, {
+			code: error.code,
+			status: error.status,
+		});
+	}
+
+	const message = redactSecrets(
+		error instanceof Error ? error.message : String(error),
+	);
+	return new UserError(`${context}: ${message}`, { code: "UNKNOWN_ERROR" });
+}
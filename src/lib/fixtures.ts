@@ -0,0 +1,115 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { redactSecrets, stripCredentials } from "./redact.js";
+
+/**
+ * Signature of the fetch function used by fetchJson.
+ */
+export type FetchImplementation = (
+	url: string,
+	init?: RequestInit,
+) => Promise<Response>;
+
+/**
+ * A captured request/response pair as stored on disk.
+ */
+interface Fixture {
+	request: {
+		method: string;
+		url: string;
+	};
+	response: {
+		status: number;
+		statusText: string;
+		headers: Record<string, string>;
+		body: string;
+	};
+}
+
+/** Response headers worth keeping; everything else is noise in fixtures. */
+const recordedHeaders = ["content-type", "retry-after"];
+
+/**
+ * Maps a request to its fixture file, e.g.
+ * `<dir>/api.themoviedb.org/3-movie-27205-1a2b3c4d5e6f.json`.
+ */
+function fixturePath(dir: string, method: string, url: string): string {
+	const redactedUrl = stripCredentials(url);
+	const { host, pathname } = new URL(redactedUrl);
+	const slug = pathname.replace(/^\/+|\/+$/g, "").replace(/[^\w.]+/g, "-");
+	const hash = createHash("sha1")
+		.update(`${method} ${redactedUrl}`)
+		.digest("hex")
+		.slice(0, 12);
+	return join(dir, host.replace(":", "_"), `${slug || "root"}-${hash}.json`);
+}
+
+/**
+ * Wraps `baseFetch` so every request/response pair is written to `dir`,
+ * with API keys removed from the URL and the body.
+ */
+export function createRecordingFetch(
+	dir: string,
+	baseFetch: FetchImplementation,
+): FetchImplementation {
+	return async (url, init) => {
+		const method = (init?.method ?? "GET").toUpperCase();
+		const response = await baseFetch(url, init);
+		const body = await response.text();
+
+		const fixture: Fixture = {
+			request: { method, url: stripCredentials(url) },
+			response: {
+				status: response.status,
+				statusText: response.statusText,
+				headers: Object.fromEntries(
+					recordedHeaders.flatMap((name) => {
+						const value = response.headers.get(name);
+						return value === null ? [] : [[name, value]];
+					}),
+				),
+				body: redactSecrets(body),
+			},
+		};
+
+		const path = fixturePath(dir, method, url);
+		await mkdir(dirname(path), { recursive: true });
+		await writeFile(path, `${JSON.stringify(fixture, null, "\t")}\n`);
+
+		return new Response(body || null, {
+			status: response.status,
+			statusText: response.statusText,
+			headers: response.headers,
+		});
+	};
+}
+
+/**
+ * Serves responses exclusively from fixtures in `dir`. A request without a
+ * recorded fixture fails instead of reaching the network.
+ */
+export function createReplayFetch(dir: string): FetchImplementation {
+	return async (url, init) => {
+		const method = (init?.method ?? "GET").toUpperCase();
+		const path = fixturePath(dir, method, url);
+
+		let fixture: Fixture;
+		try {
+			fixture = JSON.parse(await readFile(path, "utf8")) as Fixture;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				throw new Error(
+					`No recorded fixture for ${method} ${stripCredentials(url)} (expected ${path}). Record it with HTTP_MODE=record.`,
+				);
+			}
+			throw error;
+		}
+
+		return new Response(fixture.response.body || null, {
+			status: fixture.response.status,
+			statusText: fixture.response.statusText,
+			headers: fixture.response.headers,
+		});
+	};
+}
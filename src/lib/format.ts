@@ -0,0 +1,88 @@
+import { z } from "zod";
+
+/**
+ * Zod schema for the `format` parameter shared by all tools.
+ */
+export const formatParam = z
+	.enum(["text", "json", "markdown-table", "compact"])
+	.default("text")
+	.describe(
+		"How to render the text content: 'text' (readable prose, default), 'json' (the structured result), 'markdown-table' or 'compact' (one line per result). The structured result is always returned as structuredContent.",
+	);
+
+export type OutputFormat = z.infer<typeof formatParam>;
+
+/**
+ * Human-readable renderings of a tool result, one per prose format.
+ */
+export interface Renderings {
+	text: string;
+	table: string;
+	compact: string;
+}
+
+/**
+ * Builds a tool result carrying `structured` as structured content and a
+ * text rendering of it in the requested format.
+ */
+export function formatResult<T extends Record<string, unknown>>(
+	format: OutputFormat,
+	structured: T,
+	renderings: Renderings,
+) {
+	let text: string;
+	switch (format) {
+		case "json":
+			text = JSON.stringify(structured, null, 2);
+			break;
+		case "markdown-table":
+			text = renderings.table;
+			break;
+		case "compact":
+			text = renderings.compact;
+			break;
+		default:
+			text = renderings.text;
+	}
+
+	return {
+		content: [{ type: "text" as const, text }],
+		structuredContent: structured,
+	};
+}
+
+/**
+ * Builds a result for a call that found nothing: `message` in every prose
+ * format, the (empty) structured result in "json".
+ */
+export function emptyResult<T extends Record<string, unknown>>(
+	format: OutputFormat,
+	structured: T,
+	message: string,
+) {
+	return formatResult(format, structured, {
+		text: message,
+		table: message,
+		compact: message,
+	});
+}
+
+type Cell = string | number | null | undefined;
+
+/**
+ * Renders rows as a GitHub-flavored markdown table.
+ */
+export function markdownTable(headers: string[], rows: Cell[][]): string {
+	const cell = (value: Cell) =>
+		value === null || value === undefined || value === ""
+			? "N/A"
+			: String(value)
+					.replace(/\|/g, "\\|")
+					.replace(/\s*\n\s*/g, " ");
+
+	return [
+		`| ${headers.join(" | ")} |`,
+		`| ${headers.map(() => "---").join(" | ")} |`,
+		...rows.map((row) => `| ${row.map(cell).join(" | ")} |`),
+	].join("\n");
+}
@@ -1,20 +1,190 @@
+import { setTimeout as sleep } from "node:timers/promises";
 import type { z } from "zod";
+import { responseCache } from "./cache.js";
+import { config } from "./config.js";
+import {
+	errorFromResponse,
+	InvalidResponseError,
+	RateLimitedError,
+	UpstreamUnavailableError,
+} from "./errors.js";
+import {
+	createRecordingFetch,
+	createReplayFetch,
+	type FetchImplementation,
+} from "./fixtures.js";
+import { logger } from "./logger.js";
+import { upstreamMetrics } from "./metrics.js";
+import { describeError, redactSecrets } from "./redact.js";
+import { requestScheduler } from "./scheduler.js";
 
 /**
- * Custom error class for HTTP-related errors.
+ * Creates the fetch implementation for the configured HTTP mode:
+ * "live" talks to the network, "record" additionally captures every
+ * request/response pair as a fixture and "replay" serves fixtures only.
+ */
+function createFetch(mode: string, fixturesDir: string): FetchImplementation {
+	switch (mode) {
+		case "live":
+			return fetch;
+		case "record":
+			return createRecordingFetch(fixturesDir, fetch);
+		case "replay":
+			return createReplayFetch(fixturesDir);
+		default:
+			throw new Error(
+				`Unknown HTTP mode "${mode}". Expected "live", "record" or "replay".`,
+			);
+	}
+}
+
+let fetchImplementation = createFetch(
+	config.http.mode,
+	config.http.fixturesDir,
+);
+
+/**
+ * Replaces the fetch implementation used by fetchJson, e.g. to serve
+ * canned responses in tests.
+ */
+export function setFetchImplementation(implementation: FetchImplementation) {
+	fetchImplementation = implementation;
+}
+
+/**
+ * Options accepted by service methods that call upstream APIs.
+ */
+export interface CallOptions {
+	/** Aborts the call, including pending retries and fan-out requests. */
+	signal?: AbortSignal;
+	/** Called as each stage of a fan-out starts and as its requests complete. */
+	onProgress?: (progress: StageProgress) => void;
+}
+
+/**
+ * Progress of one stage of a call, e.g. the per-result details requests
+ * that follow a discover request.
+ */
+export interface StageProgress {
+	stage: string;
+	completed: number;
+	total: number;
+}
+
+/**
+ * Reports the start of a stage of `total` requests and returns a function
+ * to call as each of them completes.
+ */
+export function trackStage(
+	options: CallOptions,
+	stage: string,
+	total: number,
+): () => void {
+	let completed = 0;
+	options.onProgress?.({ stage, completed, total });
+	return () => {
+		completed++;
+		options.onProgress?.({ stage, completed, total });
+	};
+}
+
+/**
+ * Retry policy applied by fetchJson.
  *
- * Extends the standard Error class to include HTTP status codes and
- * optional response data for better error handling and debugging.
+ * Each attempt is aborted after `timeoutMs`. Only network failures,
+ * timeouts, 429 and 5xx responses are retried. Delays grow
+ * exponentially from `baseDelayMs`, are capped at `maxDelayMs` and randomized
+ * by `jitter` (0 = none, 1 = full jitter). A `Retry-After` header sent with a
+ * 429 response takes precedence over the computed delay.
+ */
+export interface RetryPolicy {
+	maxAttempts: number;
+	baseDelayMs: number;
+	maxDelayMs: number;
+	jitter: number;
+	timeoutMs: number;
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+	maxAttempts: 4,
+	baseDelayMs: 500,
+	maxDelayMs: 8000,
+	jitter: 0.5,
+	timeoutMs: config.http.requestTimeoutMs,
+};
+
+/**
+ * Parses a `Retry-After` header value (either delta-seconds or an HTTP date)
+ * into milliseconds from now.
  */
-export class HttpError extends Error {
-	constructor(
-		public readonly status: number,
-		message: string,
-		public readonly data?: unknown,
-	) {
-		super(message);
-		this.name = "HttpError";
+function parseRetryAfter(value: string | null): number | undefined {
+	if (!value) return undefined;
+
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+	const date = Date.parse(value);
+	if (Number.isNaN(date)) return undefined;
+	return Math.max(0, date - Date.now());
+}
+
+/**
+ * Rate limiting and unavailable upstreams (network failures, timeouts, 5xx)
+ * are transient; everything else will fail the same way again.
+ */
+function isRetryable(error: unknown): boolean {
+	return (
+		error instanceof RateLimitedError ||
+		error instanceof UpstreamUnavailableError
+	);
+}
+
+function computeDelay(
+	policy: RetryPolicy,
+	attempt: number,
+	error: unknown,
+): number {
+	if (error instanceof RateLimitedError && error.retryAfterMs !== undefined) {
+		return Math.min(error.retryAfterMs, policy.maxDelayMs);
+	}
+
+	const exponential = Math.min(
+		policy.baseDelayMs * 2 ** (attempt - 1),
+		policy.maxDelayMs,
+	);
+	return exponential * (1 - policy.jitter * Math.random());
+}
+
+/**
+ * Classifies an error thrown by fetch itself. Network failures (TypeError)
+ * and attempt timeouts mean the upstream is unavailable; a caller abort and
+ * anything else (e.g. a missing replay fixture) is passed through unchanged.
+ */
+function toTransportError(
+	error: unknown,
+	host: string,
+	timeoutMs: number,
+	signal: AbortSignal | undefined,
+): unknown {
+	if (signal?.aborted) return error;
+
+	if (error instanceof DOMException && error.name === "TimeoutError") {
+		return new UpstreamUnavailableError(
+			0,
+			`Request to ${host} timed out after ${timeoutMs}ms`,
+			undefined,
+			{ cause: error },
+		);
 	}
+	if (error instanceof TypeError) {
+		return new UpstreamUnavailableError(
+			0,
+			`Request to ${host} failed: ${error.message}`,
+			undefined,
+			{ cause: error },
+		);
+	}
+	return error;
 }
 
 /**
@@ -22,54 +192,144 @@ export class HttpError extends Error {
  *
  * Performs a fetch request and automatically parses the JSON response.
  * Optionally validates the response data against a Zod schema for type safety.
- * Throws HttpError for non-OK responses and validation errors.
+ * GET responses are served from the shared response cache when fresh.
+ * Requests go through the shared scheduler, which enforces the global
+ * concurrency limit and per-host rate budgets. Transient failures are
+ * retried according to the given retry policy until `options.signal` aborts.
+ * Failures are reported as HttpError subclasses (see errors.ts); aborting
+ * `options.signal` rejects with the signal's reason instead.
  *
  * @param url - URL to fetch from
- * @param options - Optional fetch configuration
+ * @param options - Optional fetch configuration, including the caller's abort signal
  * @param schema - Optional Zod schema for response validation
+ * @param retryPolicy - Optional overrides for the default retry policy
  * @returns Promise resolving to parsed and validated JSON data
- * @throws HttpError for HTTP errors or validation failures
+ * @throws HttpError for HTTP, network and validation failures
  */
 export async function fetchJson<T>(
 	url: string,
 	options?: RequestInit,
 	schema?: z.ZodType<T>,
-	maxRetries: number = 4,
-	retryDelayMs: number = 1000,
+	retryPolicy: Partial<RetryPolicy> = {},
 ): Promise<T> {
+	const policy = { ...defaultRetryPolicy, ...retryPolicy };
+	const signal = options?.signal ?? undefined;
+	const host = new URL(url).host;
+	// Fixture modes must see every request, so they bypass the cache, as do
+	// callers that ask for a fresh response.
+	const cacheable =
+		config.http.mode === "live" &&
+		options?.cache !== "no-store" &&
+		(options?.method ?? "GET").toUpperCase() === "GET";
 	let attempts = 0;
-	while (attempts < maxRetries) {
-		try {
-			const response = await fetch(url, options);
-
-			if (!response.ok) {
-				throw new HttpError(
-					response.status,
-					`HTTP error ${response.status}: ${response.statusText}`,
-					await response.text().catch(() => undefined),
-				);
+	const endpoint = redactSecrets(url);
+	const startedAt = Date.now();
+	const logCompleted = (message: string) =>
+		logger.debug(message, {
+			endpoint,
+			latencyMs: Date.now() - startedAt,
+			retries: attempts,
+		});
+	const recordFetched = () => {
+		upstreamMetrics.record(host, Date.now() - startedAt);
+		logCompleted(`Fetched ${endpoint}`);
+	};
+
+	if (cacheable) {
+		const cached = responseCache.get(url);
+		if (cached !== undefined) {
+			const result = schema
+				? schema.safeParse(cached)
+				: { success: true as const, data: cached as T };
+			if (result.success) {
+				logCompleted(`Served ${endpoint} from cache`);
+				return result.data;
 			}
+		}
+	}
 
-			const data = await response.json();
+	while (true) {
+		try {
+			const data = await requestScheduler.schedule(
+				host,
+				async () => {
+					// Started once scheduled, so time spent queued or throttled
+					// does not count against the attempt.
+					const attemptSignal = signal
+						? AbortSignal.any([signal, AbortSignal.timeout(policy.timeoutMs)])
+						: AbortSignal.timeout(policy.timeoutMs);
+
+					let response: Response;
+					try {
+						response = await fetchImplementation(url, {
+							...options,
+							signal: attemptSignal,
+						});
+					} catch (error) {
+						throw toTransportError(error, host, policy.timeoutMs, signal);
+					}
+
+					if (!response.ok) {
+						throw errorFromResponse(
+							response.status,
+							response.statusText,
+							await response.text().catch(() => undefined),
+							parseRetryAfter(response.headers.get("retry-after")),
+						);
+					}
+
+					try {
+						return await response.json();
+					} catch (error) {
+						throw new InvalidResponseError(
+							response.status,
+							`Response from ${host} is not valid JSON`,
+							undefined,
+							{ cause: error },
+						);
+					}
+				},
+				signal,
+			);
 
 			if (schema) {
-				try {
-					return schema.parse(data);
-				} catch (error) {
-					throw new Error(
-						`Invalid response data: ${error instanceof Error ? error.message : String(error)}`,
+				const result = schema.safeParse(data);
+				if (!result.success) {
+					throw new InvalidResponseError(
+						200,
+						`Invalid response data: ${result.error.message}`,
+						data,
 					);
 				}
+				if (cacheable) responseCache.set(url, data);
+				recordFetched();
+				return result.data;
 			}
 
+			if (cacheable) responseCache.set(url, data);
+			recordFetched();
 			return data as T;
 		} catch (error) {
-			attempts++;
-			if (attempts >= maxRetries) {
+			signal?.throwIfAborted();
+			if (attempts + 1 >= policy.maxAttempts || !isRetryable(error)) {
+				const latencyMs = Date.now() - startedAt;
+				upstreamMetrics.record(host, latencyMs, describeError(error));
+				logger.warning(`Request to ${endpoint} failed`, {
+					endpoint,
+					latencyMs,
+					retries: attempts,
+					error: describeError(error),
+				});
 				throw error;
 			}
-			await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
+			attempts++;
+			const delayMs = computeDelay(policy, attempts, error);
+			logger.info(`Retrying ${endpoint} in ${Math.round(delayMs)}ms`, {
+				endpoint,
+				retries: attempts,
+				error: describeError(error),
+			});
+			await sleep(delayMs, undefined, { signal });
 		}
 	}
-	throw new Error("Failed to fetch JSON after multiple retries.");
 }
@@ -0,0 +1,196 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { setMaxListeners } from "node:events";
+import { appendFileSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type {
+	Context,
+	FastMCP,
+	FastMCPSessionAuth,
+	LoggingLevel,
+} from "fastmcp";
+import { config } from "./config.js";
+import { redactSecrets } from "./redact.js";
+
+/** MCP log levels, least severe first. */
+const levels: LoggingLevel[] = [
+	"debug",
+	"info",
+	"notice",
+	"warning",
+	"error",
+	"critical",
+	"alert",
+	"emergency",
+];
+
+/** Name sent as the `logger` of every MCP log message. */
+const loggerName = "entertainment-mcp";
+
+/**
+ * Structured fields attached to a log entry, e.g. `endpoint`, `latencyMs`
+ * or `retries`.
+ */
+export type LogFields = Record<string, string | number | boolean | null>;
+
+/**
+ * A log entry as sent to the client and written to the log file.
+ */
+export interface LogEntry extends LogFields {
+	time: string;
+	level: LoggingLevel;
+	message: string;
+}
+
+/**
+ * The tool call a log entry was made on behalf of.
+ */
+interface RequestContext {
+	tool: string;
+	/** Only HTTP sessions have an ID; the stdio session has none. */
+	sessionId?: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+let server: FastMCP<FastMCPSessionAuth> | undefined;
+let fileSinkFailed = false;
+
+function isEnabled(level: LoggingLevel, threshold: LoggingLevel): boolean {
+	return levels.indexOf(level) >= levels.indexOf(threshold);
+}
+
+function redactFields(fields: LogFields): LogFields {
+	return Object.fromEntries(
+		Object.entries(fields).map(([key, value]) => [
+			key,
+			typeof value === "string" ? redactSecrets(value) : value,
+		]),
+	);
+}
+
+function writeToFile(entry: LogEntry) {
+	const { filePath } = config.logging;
+	if (!filePath || fileSinkFailed) return;
+
+	try {
+		mkdirSync(dirname(filePath), { recursive: true });
+		appendFileSync(filePath, `${JSON.stringify(entry)}\n`);
+	} catch (error) {
+		// Report once rather than on every entry.
+		fileSinkFailed = true;
+		console.error(
+			`Failed to write log file ${filePath}, disabling it: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+}
+
+/**
+ * Sends `entry` to the sessions it concerns: the one of the tool call it was
+ * logged from, or every connected session for background events such as
+ * cache writes. Each session only receives entries at or above the level its
+ * client selected with `logging/setLevel`. Returns false if no session is
+ * connected.
+ */
+function sendToClients(entry: LogEntry): boolean {
+	const context = requestContext.getStore();
+	// Looked up per entry: FastMCP only lists a session once its handshake
+	// has completed, which can be after the first tool call arrived.
+	const sessions =
+		server?.sessions.filter(
+			(session) => !context || session.sessionId === context.sessionId,
+		) ?? [];
+	if (!sessions.length) return false;
+
+	for (const session of sessions) {
+		if (!isEnabled(entry.level, session.loggingLevel)) continue;
+		session.server
+			.sendLoggingMessage({
+				level: entry.level,
+				logger: loggerName,
+				data: entry,
+			})
+			.catch(() => {
+				// The client went away; there is nobody left to tell.
+			});
+	}
+	return true;
+}
+
+function log(level: LoggingLevel, message: string, fields: LogFields = {}) {
+	const entry: LogEntry = {
+		...redactFields(fields),
+		time: new Date().toISOString(),
+		level,
+		message: redactSecrets(message),
+	};
+	const tool = requestContext.getStore()?.tool;
+	if (tool) entry.tool = tool;
+
+	const sent = sendToClients(entry);
+	if (!isEnabled(level, config.logging.level)) return;
+
+	writeToFile(entry);
+	// stderr is not part of the protocol, but nothing reads it once a client
+	// is connected; it only catches what happens before that.
+	if (!sent) {
+		console.error(`[${level}] ${entry.message}`);
+	}
+}
+
+/**
+ * Leveled, structured logger.
+ *
+ * Entries go to connected clients as MCP `notifications/message`, filtered
+ * by the level each client selected, and, at or above `LOG_LEVEL`, to the
+ * JSON-lines file at `LOG_FILE` when one is configured. Entries logged during
+ * a tool call carry the tool's name. Messages and string fields are
+ * redacted.
+ */
+export const logger = {
+	debug: (message: string, fields?: LogFields) => log("debug", message, fields),
+	info: (message: string, fields?: LogFields) => log("info", message, fields),
+	warning: (message: string, fields?: LogFields) =>
+		log("warning", message, fields),
+	error: (message: string, fields?: LogFields) => log("error", message, fields),
+};
+
+/**
+ * Connects the logger to `mcpServer`'s sessions. Until this is called,
+ * entries only go to the log file and stderr.
+ */
+export function attachLogger(mcpServer: FastMCP<FastMCPSessionAuth>) {
+	server = mcpServer;
+}
+
+/**
+ * Wraps a tool so that everything logged while it executes is sent to the
+ * calling session and tagged with the tool's name.
+ *
+ * The tool also gets its own abort signal, derived from the call's: each of
+ * its requests waiting on the shared scheduler listens to it, and a fan-out
+ * of a few dozen requests would otherwise trip Node's
+ * MaxListenersExceededWarning.
+ */
+export function withRequestLogging<
+	T extends {
+		name: string;
+		execute: (
+			args: never,
+			context: Context<FastMCPSessionAuth>,
+		) => Promise<unknown>;
+	},
+>(tool: T): T {
+	const execute = (
+		args: Parameters<T["execute"]>[0],
+		context: Context<FastMCPSessionAuth>,
+	) =>
+		requestContext.run(
+			{ tool: tool.name, sessionId: context.sessionId },
+			() => {
+				const signal = AbortSignal.any([context.signal]);
+				setMaxListeners(0, signal);
+				return tool.execute(args, { ...context, signal });
+			},
+		);
+	return { ...tool, execute };
+}
@@ -0,0 +1,74 @@
+/**
+ * Request counters for one upstream host since startup.
+ */
+export interface UpstreamStats {
+	host: string;
+	requests: number;
+	errors: number;
+	/** Share of requests that failed after all retries, 0 to 1. */
+	errorRate: number;
+	averageLatencyMs: number;
+	maxLatencyMs: number;
+	/** Message of the most recent failure, redacted. */
+	lastError: string | null;
+}
+
+interface HostCounters {
+	requests: number;
+	errors: number;
+	totalLatencyMs: number;
+	maxLatencyMs: number;
+	lastError: string | null;
+}
+
+/**
+ * Collects per-host outcomes of upstream requests made by fetchJson.
+ *
+ * A request is counted once, with the latency of all its attempts, whatever
+ * the number of retries. Responses served from the cache are not counted.
+ */
+export class UpstreamMetrics {
+	private readonly hosts = new Map<string, HostCounters>();
+
+	record(host: string, latencyMs: number, error?: string) {
+		let counters = this.hosts.get(host);
+		if (!counters) {
+			counters = {
+				requests: 0,
+				errors: 0,
+				totalLatencyMs: 0,
+				maxLatencyMs: 0,
+				lastError: null,
+			};
+			this.hosts.set(host, counters);
+		}
+
+		counters.requests++;
+		counters.totalLatencyMs += latencyMs;
+		counters.maxLatencyMs = Math.max(counters.maxLatencyMs, latencyMs);
+		if (error !== undefined) {
+			counters.errors++;
+			counters.lastError = error;
+		}
+	}
+
+	/**
+	 * Stats for every host contacted since startup.
+	 */
+	snapshot(): UpstreamStats[] {
+		return [...this.hosts].map(([host, counters]) => ({
+			host,
+			requests: counters.requests,
+			errors: counters.errors,
+			errorRate: counters.errors / counters.requests,
+			averageLatencyMs: Math.round(counters.totalLatencyMs / counters.requests),
+			maxLatencyMs: counters.maxLatencyMs,
+			lastError: counters.lastError,
+		}));
+	}
+}
+
+/**
+ * Process-wide metrics recorded by fetchJson.
+ */
+export const upstreamMetrics = new UpstreamMetrics();
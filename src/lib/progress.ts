@@ -0,0 +1,44 @@
+import type { Context, FastMCPSessionAuth } from "fastmcp";
+import type { CallOptions, StageProgress } from "./http.js";
+
+/**
+ * Call options for a tool's upstream calls that abort with the tool call
+ * and report each completed request as MCP progress.
+ *
+ * Progress counts completed requests across every stage of the call; the
+ * total grows as stages start, since a stage's size is only known once the
+ * request before it has returned. Clients that did not send a progress
+ * token receive nothing.
+ */
+export function progressCallOptions(
+	context: Context<FastMCPSessionAuth>,
+): Required<CallOptions> {
+	const stages = new Map<string, StageProgress>();
+	let reported = 0;
+
+	return {
+		signal: context.signal,
+		onProgress: (progress) => {
+			stages.set(progress.stage, progress);
+
+			let completed = 0;
+			let total = 0;
+			for (const stage of stages.values()) {
+				completed += stage.completed;
+				total += stage.total;
+			}
+
+			// Progress must increase with every notification.
+			if (completed <= reported) {
+				return;
+			}
+			reported = completed;
+
+			void context.reportProgress({
+				progress: completed,
+				total,
+				message: `${progress.stage} (${progress.completed}/${progress.total})`,
+			});
+		},
+	};
+}
@@ -0,0 +1,63 @@
+import { config } from "./config.js";
+
+/** Query parameters that carry credentials. */
+const credentialParams = ["api_key", "apikey"];
+
+const minSecretLength = 8;
+
+/** Credentials in query strings and Authorization headers, configured or not. */
+const credentialPatterns: [RegExp, string][] = [
+	[/\b(api_?key=)[^&\s"']+/gi, "$1[REDACTED]"],
+	[/\b(Bearer\s+)[\w.~+/-]+=*/g, "$1[REDACTED]"],
+];
+
+/**
+ * Returns `url` without credential query parameters and with the remaining
+ * parameters sorted, so equivalent requests map to the same string.
+ */
+export function stripCredentials(url: string): string {
+	const parsed = new URL(url);
+	for (const param of credentialParams) parsed.searchParams.delete(param);
+	parsed.searchParams.sort();
+	return parsed.toString();
+}
+
+/**
+ * Replaces every configured API key or access token that appears in `text`,
+ * as well as anything that looks like a credential, with a placeholder.
+ */
+export function redactSecrets(text: string): string {
+	let redacted = text;
+	for (const secret of [
+		config.tmdbApi.apiKey,
+		config.tmdbApi.accessToken,
+		config.omdbApi.apiKey,
+	]) {
+		// Too short to be a real credential; replacing it would mangle text.
+		if (secret.length >= minSecretLength) {
+			redacted = redacted.replaceAll(secret, "[REDACTED]");
+		}
+	}
+	for (const [pattern, replacement] of credentialPatterns) {
+		redacted = redacted.replace(pattern, replacement);
+	}
+	return redacted;
+}
+
+/**
+ * Formats an error for a log line, including its causes, with secrets
+ * redacted.
+ */
+export function describeError(error: unknown): string {
+	const parts: string[] = [];
+	let current: unknown = error;
+	while (current !== undefined && parts.length < 5) {
+		parts.push(
+			current instanceof Error
+				? `${current.name}: ${current.message}`
+				: String(current),
+		);
+		current = current instanceof Error ? current.cause : undefined;
+	}
+	return redactSecrets(parts.join(" <- caused by "));
+}
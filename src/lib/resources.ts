@@ -0,0 +1,38 @@
+import type { ResourceResult } from "fastmcp";
+import { config } from "./config.js";
+import { NotFoundError } from "./errors.js";
+
+/**
+ * Call options for resource loads. FastMCP does not hand resource templates
+ * an abort signal, so loads share the tool deadline instead.
+ */
+export function resourceCallOptions() {
+	return { signal: AbortSignal.timeout(config.http.toolDeadlineMs) };
+}
+
+/**
+ * Parses a numeric TMDB ID taken from a resource URI.
+ *
+ * @throws NotFoundError when the value is not a positive integer
+ */
+export function parseTmdbId(value: string, kind: string): number {
+	const id = Number(value);
+	if (!/^\d+$/.test(value) || id <= 0) {
+		throw new NotFoundError(`"${value}" is not a valid TMDB ${kind} ID`);
+	}
+	return id;
+}
+
+/**
+ * Builds the contents of a resource: the structured record as JSON, followed
+ * by a markdown summary for clients that show resources to the user.
+ */
+export function toResourceContents(
+	data: unknown,
+	markdown: string,
+): ResourceResult[] {
+	return [
+		{ mimeType: "application/json", text: JSON.stringify(data, null, 2) },
+		{ mimeType: "text/markdown", text: markdown },
+	];
+}
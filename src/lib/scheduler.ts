@@ -0,0 +1,202 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import { config } from "./config.js";
+import { logger } from "./logger.js";
+
+/**
+ * Token bucket used to keep requests to a single host under a
+ * requests-per-second budget.
+ *
+ * Tokens may go negative: each caller reserves one immediately and is told
+ * how long to wait before using it, so waiters are served in arrival order.
+ */
+class TokenBucket {
+	private tokens: number;
+	private updatedAt = Date.now();
+
+	constructor(
+		private readonly ratePerSecond: number,
+		private readonly capacity: number,
+	) {
+		this.tokens = capacity;
+	}
+
+	/**
+	 * Reserves a token and returns the delay (ms) before it may be used.
+	 */
+	reserve(): number {
+		const now = Date.now();
+		this.tokens = Math.min(
+			this.capacity,
+			this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond,
+		);
+		this.updatedAt = now;
+		this.tokens -= 1;
+
+		return this.tokens >= 0 ? 0 : (-this.tokens / this.ratePerSecond) * 1000;
+	}
+
+	/**
+	 * Returns a reserved token that was not used.
+	 */
+	refund() {
+		this.tokens = Math.min(this.capacity, this.tokens + 1);
+	}
+}
+
+export interface RequestSchedulerOptions {
+	/** Maximum number of requests in flight across all hosts. */
+	maxConcurrent: number;
+	/** Requests-per-second budget for hosts without an explicit entry. */
+	defaultRequestsPerSecond: number;
+	/** Requests-per-second budget keyed by host name. */
+	hostBudgets: Record<string, number>;
+}
+
+/**
+ * Shared scheduler for outgoing HTTP requests.
+ *
+ * Every request first waits for a token from its host's bucket, then for a
+ * free slot under the global in-flight limit. Concurrent tool calls therefore
+ * share one quota instead of each firing their whole fan-out at once.
+ */
+export class RequestScheduler {
+	private active = 0;
+	private readonly waiting: Array<() => void> = [];
+	private readonly buckets = new Map<string, TokenBucket>();
+	private readonly throttled = new Map<string, number>();
+	private queuedSince: number | null = null;
+
+	constructor(private readonly options: RequestSchedulerOptions) {}
+
+	/**
+	 * Number of requests currently in flight and waiting to be sent.
+	 */
+	get stats(): { active: number; queued: number } {
+		let throttled = 0;
+		for (const count of this.throttled.values()) throttled += count;
+		return { active: this.active, queued: this.waiting.length + throttled };
+	}
+
+	/**
+	 * Runs `task` once the host's rate budget and a concurrency slot allow it.
+	 * Waiting stops as soon as `signal` aborts, and a request cancelled
+	 * before it is sent gives its token back to the host's budget.
+	 */
+	async schedule<T>(
+		host: string,
+		task: () => Promise<T>,
+		signal?: AbortSignal,
+	): Promise<T> {
+		signal?.throwIfAborted();
+		const bucket = this.bucketFor(host);
+		const delayMs = bucket.reserve();
+		try {
+			if (delayMs > 0) {
+				await this.throttle(host, delayMs, signal);
+			}
+			await this.acquireSlot(host, signal);
+		} catch (error) {
+			bucket.refund();
+			throw error;
+		}
+
+		try {
+			return await task();
+		} finally {
+			this.releaseSlot();
+		}
+	}
+
+	private bucketFor(host: string): TokenBucket {
+		let bucket = this.buckets.get(host);
+		if (!bucket) {
+			const rate =
+				this.options.hostBudgets[host] ?? this.options.defaultRequestsPerSecond;
+			bucket = new TokenBucket(rate, rate);
+			this.buckets.set(host, bucket);
+		}
+		return bucket;
+	}
+
+	private async throttle(
+		host: string,
+		delayMs: number,
+		signal: AbortSignal | undefined,
+	) {
+		const pending = this.throttled.get(host) ?? 0;
+		if (pending === 0) {
+			logger.warning(`Rate budget for ${host} exhausted, delaying requests`, {
+				host,
+			});
+		}
+		this.throttled.set(host, pending + 1);
+
+		try {
+			await sleep(delayMs, undefined, { signal });
+		} finally {
+			this.throttled.set(host, (this.throttled.get(host) ?? 1) - 1);
+		}
+	}
+
+	private acquireSlot(
+		host: string,
+		signal: AbortSignal | undefined,
+	): Promise<void> {
+		signal?.throwIfAborted();
+		if (this.active < this.options.maxConcurrent) {
+			this.active++;
+			return Promise.resolve();
+		}
+
+		if (this.queuedSince === null) {
+			this.queuedSince = Date.now();
+			logger.info(
+				`${this.active} requests in flight, queueing request to ${host}`,
+				{ host, active: this.active },
+			);
+		}
+		return new Promise((resolve, reject) => {
+			const onAbort = () => {
+				const index = this.waiting.indexOf(grant);
+				if (index !== -1) this.waiting.splice(index, 1);
+				reject(signal?.reason);
+			};
+			const grant = () => {
+				signal?.removeEventListener("abort", onAbort);
+				resolve();
+			};
+
+			this.waiting.push(grant);
+			signal?.addEventListener("abort", onAbort, { once: true });
+		});
+	}
+
+	private releaseSlot() {
+		const next = this.waiting.shift();
+		if (next) {
+			// Hand the slot straight to the next waiter.
+			next();
+			return;
+		}
+
+		this.active--;
+		if (this.queuedSince !== null) {
+			logger.info("Request queue drained", {
+				queuedMs: Date.now() - this.queuedSince,
+			});
+			this.queuedSince = null;
+		}
+	}
+}
+
+/**
+ * Process-wide scheduler used by fetchJson.
+ */
+export const requestScheduler = new RequestScheduler({
+	maxConcurrent: config.http.maxConcurrentRequests,
+	defaultRequestsPerSecond: config.http.requestsPerSecond,
+	hostBudgets: {
+		[new URL(config.tmdbApi.baseUrl).host]: config.tmdbApi.requestsPerSecond,
+		[new URL(config.omdbApi.baseUrl).host]: config.omdbApi.requestsPerSecond,
+	},
+});
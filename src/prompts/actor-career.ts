@@ -0,0 +1,36 @@
+import dedent from "dedent";
+import type { FastMCPSessionAuth, InputPrompt } from "fastmcp";
+
+const actorCareerArguments = [
+	{
+		name: "person" as const,
+		description: "Name of the actor (e.g., 'Cate Blanchett')",
+		required: true as const,
+	},
+];
+
+/**
+ * "explore_actor_career" prompt for MCP (Model Context Protocol) server.
+ *
+ * Guides the model from a person's name to an overview of their movie and
+ * TV work.
+ */
+export const actorCareerPrompt: InputPrompt<
+	FastMCPSessionAuth,
+	typeof actorCareerArguments
+> = {
+	name: "explore_actor_career",
+	description:
+		"Explore an actor's career: who they are, their best-known work and hidden gems",
+	arguments: actorCareerArguments,
+
+	load: async (args) => dedent`
+		Walk me through the career of ${args.person}.
+
+		1. Call GET_TMDB_PERSON_SEARCH with query "${args.person}". If several people match, pick the most popular one in the acting department and say which one you chose.
+		2. Call GET_TMDB_PERSON_FILMOGRAPHY once with their ID and sortBy "popularity" to get their movie and TV credits, cast and crew, including TV guest spots.
+		3. For the three to five most notable titles, call GET_OMDB_INFO to get IMDb ratings and awards context.
+
+		Summarize their career in phases, list their best-rated work, and suggest two lesser-known titles worth watching.
+	`,
+};
@@ -0,0 +1,48 @@
+import dedent from "dedent";
+import type { FastMCPSessionAuth, InputPrompt } from "fastmcp";
+
+const bingeNextArguments = [
+	{
+		name: "show" as const,
+		description: "A TV show you enjoyed (e.g., 'Dark')",
+		required: true as const,
+	},
+	{
+		name: "alsoWatched" as const,
+		description:
+			"Other shows you enjoyed, comma-separated (e.g., 'Severance, Devs')",
+		required: false as const,
+	},
+];
+
+/**
+ * "what_to_binge_next" prompt for MCP (Model Context Protocol) server.
+ *
+ * Guides the model from the shows the user liked to TMDB's recommendations
+ * seeded with all of them.
+ */
+export const bingeNextPrompt: InputPrompt<
+	FastMCPSessionAuth,
+	typeof bingeNextArguments
+> = {
+	name: "what_to_binge_next",
+	description: "Recommend what to binge next based on TV shows you liked",
+	arguments: bingeNextArguments,
+
+	load: async (args) => {
+		const watched = [args.show, ...(args.alsoWatched?.split(",") ?? [])]
+			.map((title) => title.trim())
+			.filter(Boolean);
+		const titles = watched.map((title) => `"${title}"`).join(", ");
+
+		return dedent`
+			I liked ${titles}. What should I binge next?
+
+			1. Call GET_TMDB_RECOMMENDATIONS with mediaType "tv", seeds ${JSON.stringify(watched)} and minImdbRating 7. It merges the recommendations for every show and leaves the shows themselves out.
+			2. If that returns fewer than three shows, call it again with source "both" to add similar shows.
+			3. For picks you know little about, call GET_TMDB_TV_DETAILS with their TMDB ID to learn their genres, creators and status.
+
+			Recommend three to five shows. For each, give the title, first air year, rating, where to stream it if known, and one sentence on what it shares with ${titles}.
+		`;
+	},
+};
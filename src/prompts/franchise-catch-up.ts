@@ -0,0 +1,36 @@
+import dedent from "dedent";
+import type { FastMCPSessionAuth, InputPrompt } from "fastmcp";
+
+const franchiseCatchUpArguments = [
+	{
+		name: "collection" as const,
+		description: "Name of the franchise or collection (e.g., 'Harry Potter')",
+		required: true as const,
+	},
+];
+
+/**
+ * "catch_up_on_franchise" prompt for MCP (Model Context Protocol) server.
+ *
+ * Guides the model through finding a collection and summarizing its movies
+ * in release order.
+ */
+export const franchiseCatchUpPrompt: InputPrompt<
+	FastMCPSessionAuth,
+	typeof franchiseCatchUpArguments
+> = {
+	name: "catch_up_on_franchise",
+	description:
+		"Catch up on a movie franchise: every movie in the collection in order, with a recap",
+	arguments: franchiseCatchUpArguments,
+
+	load: async (args) => dedent`
+		Catch me up on the "${args.collection}" franchise.
+
+		1. Call GET_TMDB_SEARCH_COLLECTIONS with query "${args.collection}". If several collections match, pick the one that best matches the name and mention the others.
+		2. Call GET_TMDB_COLLECTION_DETAILS with the collection's ID to list its movies.
+		3. Sort the movies by release date. Leave out announced movies that have not been released yet, but mention them at the end.
+
+		For each released movie, give the title, year, TMDB rating and a two or three sentence recap of its story. Finish with what to watch next if I want to be ready for the latest entry.
+	`,
+};
@@ -0,0 +1,75 @@
+import dedent from "dedent";
+import type { FastMCPSessionAuth, InputPrompt } from "fastmcp";
+import { config } from "../lib/config.js";
+import { TmdbService } from "../services/tmdb-service.js";
+
+/**
+ * Completes genre names from TMDB's movie genre list. Completion is a
+ * convenience, so any failure (e.g. a missing API key) yields no values.
+ */
+async function completeGenre(value: string) {
+	try {
+		const genres = await new TmdbService().getGenres("movie", {
+			signal: AbortSignal.timeout(config.http.requestTimeoutMs),
+		});
+		const values = genres
+			.map((genre) => genre.name)
+			.filter((name) => name.toLowerCase().startsWith(value.toLowerCase()));
+		return { values };
+	} catch {
+		return { values: [] };
+	}
+}
+
+const movieNightArguments = [
+	{
+		name: "genre" as const,
+		description: "Genre to pick from (e.g., 'Comedy', 'Thriller')",
+		required: true as const,
+		complete: completeGenre,
+	},
+	{
+		name: "runtimeBudget" as const,
+		description: "Total time available in minutes (e.g., '180')",
+		required: false as const,
+	},
+	{
+		name: "region" as const,
+		description: "Country code of the streaming region (e.g., 'US')",
+		required: false as const,
+	},
+];
+
+/**
+ * "plan_movie_night" prompt for MCP (Model Context Protocol) server.
+ *
+ * Guides the model from a genre and a time budget to a short list of movies
+ * that fit, using the suggestion, OMDB and watch provider tools.
+ */
+export const movieNightPrompt: InputPrompt<
+	FastMCPSessionAuth,
+	typeof movieNightArguments
+> = {
+	name: "plan_movie_night",
+	description:
+		"Plan a movie night: pick movies in a genre that fit a runtime budget and are streamable in a region",
+	arguments: movieNightArguments,
+
+	load: async (args) => {
+		const region = args.region?.toUpperCase() || config.tmdbApi.watchRegion;
+		const budget = args.runtimeBudget
+			? `${args.runtimeBudget} minutes`
+			: "one evening (about 3 hours)";
+
+		return dedent`
+			Plan a movie night for me. I want ${args.genre} movies and I have ${budget} in total. I'm watching in ${region}.
+
+			1. Call GET_ENTERTAINMENT_SUGGESTIONS with mediaType "movie", genre "${args.genre}" and minImdbRating 6.5 to get well-rated candidates. If that returns nothing, fall back to GET_TMDB_BY_GENRE.
+			2. For each candidate, call GET_OMDB_INFO with its title to get the runtime.
+			3. For the candidates that fit, call GET_WATCH_PROVIDERS with mediaType "movie", their TMDB ID and regions ["${region}"] to see where they stream, rent or buy in ${region}.
+			4. Pick one or two movies whose combined runtime fits the budget, preferring ones that are streamable.
+
+			Present the plan as a short list with title, year, runtime, IMDb rating, where to stream it and one sentence on why it fits. Mention the total runtime.
+		`;
+	},
+};
@@ -0,0 +1,65 @@
+import dedent from "dedent";
+import { NotFoundError, toUserError } from "../lib/errors.js";
+import { resourceCallOptions, toResourceContents } from "../lib/resources.js";
+import { OmdbService } from "../services/omdb-service.js";
+
+/**
+ * imdb://title/{imdbId} resource template.
+ *
+ * Exposes a movie, series or episode from OMDB by its IMDb ID as JSON plus
+ * a markdown summary.
+ */
+export const imdbTitleResource = {
+	name: "IMDb Title",
+	description: "A movie, series or episode from OMDB by its IMDb ID.",
+	uriTemplate: "imdb://title/{imdbId}",
+	arguments: [
+		{
+			name: "imdbId" as const,
+			description: "IMDb ID, e.g. tt1375666",
+			required: true,
+		},
+	],
+
+	load: async (args: { imdbId: string }) => {
+		const omdbService = new OmdbService();
+
+		try {
+			if (!/^tt\d+$/.test(args.imdbId)) {
+				throw new NotFoundError(`"${args.imdbId}" is not a valid IMDb ID`);
+			}
+
+			const item = await omdbService.getByImdbId(
+				args.imdbId,
+				resourceCallOptions(),
+			);
+			if (!item) {
+				throw new NotFoundError(`No title found for IMDb ID ${args.imdbId}`);
+			}
+
+			const markdown = dedent`
+				# ${item.title} (${item.year})
+
+				- IMDB ID: ${item.imdbId}
+				- Type: ${item.type}
+				- IMDb Rating: ${item.rating} (${item.votes} votes)
+				- Metascore: ${item.metascore}
+				- Released: ${item.released}
+				- Runtime: ${item.runtime}
+				- Genre: ${item.genre}
+				- Director: ${item.director}
+				- Writer: ${item.writer}
+				- Actors: ${item.actors}
+				- Country: ${item.country}
+				- Language: ${item.language}
+				- Poster: ${item.posterUrl || "N/A"}
+
+				${item.plot}
+			`;
+
+			return toResourceContents(item, markdown);
+		} catch (error) {
+			throw toUserError(error, "Error loading IMDb title");
+		}
+	},
+};
@@ -0,0 +1,30 @@
+import { toUserError } from "../lib/errors.js";
+import { resourceCallOptions, toResourceContents } from "../lib/resources.js";
+import { DiagnosticsService } from "../services/diagnostics-service.js";
+import { diagnosticsMarkdown } from "../tools/outputs.js";
+
+/**
+ * diagnostics://server resource.
+ *
+ * The same report as GET_SERVER_DIAGNOSTICS, as JSON plus markdown.
+ */
+export const serverDiagnosticsResource = {
+	name: "Server Diagnostics",
+	description:
+		"API key validity, upstream latency and error rates, cache and queue usage, and the effective configuration (secrets redacted).",
+	uri: "diagnostics://server",
+	mimeType: "application/json",
+
+	load: async () => {
+		const diagnosticsService = new DiagnosticsService();
+
+		try {
+			const diagnostics = await diagnosticsService.getDiagnostics(
+				resourceCallOptions(),
+			);
+			return toResourceContents(diagnostics, diagnosticsMarkdown(diagnostics));
+		} catch (error) {
+			throw toUserError(error, "Error collecting server diagnostics");
+		}
+	},
+};
@@ -0,0 +1,184 @@
+import dedent from "dedent";
+import { config } from "../lib/config.js";
+import { NotFoundError, toUserError } from "../lib/errors.js";
+import {
+	parseTmdbId,
+	resourceCallOptions,
+	toResourceContents,
+} from "../lib/resources.js";
+import { type TmdbItem, TmdbService } from "../services/tmdb-service.js";
+
+/**
+ * Markdown summary shared by the movie and TV show resources.
+ */
+function formatItem(item: TmdbItem): string {
+	const region = config.tmdbApi.watchRegion;
+	const streaming =
+		item.watchProviders?.[region]?.flatrate
+			?.map((p) => p.provider_name)
+			.join(", ") || "N/A";
+
+	return dedent`
+		# ${item.title} (${item.releaseDate})
+
+		- TMDB ID: ${item.id}
+		- IMDB ID: ${item.imdbId || "N/A"}
+		- Rating: ${item.rating}
+		- Language: ${item.language.toUpperCase()}
+		- Stream on (${region}): ${streaming}
+		- Poster: ${item.posterUrl || "N/A"}
+
+		${item.description}
+	`;
+}
+
+/**
+ * tmdb://movie/{id} resource template.
+ *
+ * Exposes a TMDB movie as JSON plus a markdown summary, so IDs returned by
+ * tools can be attached to a conversation as context.
+ */
+export const tmdbMovieResource = {
+	name: "TMDB Movie",
+	description: "A movie from TMDB by its TMDB ID.",
+	uriTemplate: "tmdb://movie/{id}",
+	arguments: [
+		{ name: "id" as const, description: "TMDB movie ID", required: true },
+	],
+
+	load: async (args: { id: string }) => {
+		const tmdbService = new TmdbService();
+
+		try {
+			const id = parseTmdbId(args.id, "movie");
+			const movie = await tmdbService.getMovie(id, resourceCallOptions());
+			if (!movie) throw new NotFoundError(`No movie found for ID ${id}`);
+
+			return toResourceContents(movie, formatItem(movie));
+		} catch (error) {
+			throw toUserError(error, "Error loading movie");
+		}
+	},
+};
+
+/**
+ * tmdb://tv/{id} resource template.
+ *
+ * Exposes a TMDB TV show as JSON plus a markdown summary.
+ */
+export const tmdbTvResource = {
+	name: "TMDB TV Show",
+	description: "A TV show from TMDB by its TMDB ID.",
+	uriTemplate: "tmdb://tv/{id}",
+	arguments: [
+		{ name: "id" as const, description: "TMDB TV show ID", required: true },
+	],
+
+	load: async (args: { id: string }) => {
+		const tmdbService = new TmdbService();
+
+		try {
+			const id = parseTmdbId(args.id, "TV show");
+			const show = await tmdbService.getTvShow(id, resourceCallOptions());
+			if (!show) throw new NotFoundError(`No TV show found for ID ${id}`);
+
+			return toResourceContents(show, formatItem(show));
+		} catch (error) {
+			throw toUserError(error, "Error loading TV show");
+		}
+	},
+};
+
+/**
+ * tmdb://person/{id} resource template.
+ *
+ * Exposes a person's TMDB profile as JSON plus a markdown summary.
+ */
+export const tmdbPersonResource = {
+	name: "TMDB Person",
+	description: "An actor or crew member from TMDB by their TMDB ID.",
+	uriTemplate: "tmdb://person/{id}",
+	arguments: [
+		{ name: "id" as const, description: "TMDB person ID", required: true },
+	],
+
+	load: async (args: { id: string }) => {
+		const tmdbService = new TmdbService();
+
+		try {
+			const id = parseTmdbId(args.id, "person");
+			const person = await tmdbService.getPerson(id, resourceCallOptions());
+			if (!person) throw new NotFoundError(`No person found for ID ${id}`);
+
+			const markdown = dedent`
+				# ${person.name}
+
+				- TMDB ID: ${person.id}
+				- IMDB ID: ${person.imdbId || "N/A"}
+				- Known for: ${person.knownForDepartment}
+				- Born: ${person.birthday || "Unknown"}${person.placeOfBirth ? ` in ${person.placeOfBirth}` : ""}${person.deathday ? `\n- Died: ${person.deathday}` : ""}
+				- Profile: ${person.profilePath || "N/A"}
+
+				${person.biography}
+			`;
+
+			return toResourceContents(person, markdown);
+		} catch (error) {
+			throw toUserError(error, "Error loading person");
+		}
+	},
+};
+
+/**
+ * tmdb://collection/{id} resource template.
+ *
+ * Exposes a TMDB movie collection and its parts as JSON plus a markdown
+ * summary, e.g. for IDs returned by GET_TMDB_SEARCH_COLLECTIONS.
+ */
+export const tmdbCollectionResource = {
+	name: "TMDB Collection",
+	description: "A movie collection (franchise) from TMDB by its TMDB ID.",
+	uriTemplate: "tmdb://collection/{id}",
+	arguments: [
+		{ name: "id" as const, description: "TMDB collection ID", required: true },
+	],
+
+	load: async (args: { id: string }) => {
+		const tmdbService = new TmdbService();
+
+		try {
+			const id = parseTmdbId(args.id, "collection");
+			const collection = await tmdbService.getCollectionDetails(
+				id,
+				resourceCallOptions(),
+			);
+			if (!collection) {
+				throw new NotFoundError(`No collection found for ID ${id}`);
+			}
+
+			const parts = collection.parts
+				.map(
+					(movie, i) =>
+						`${i + 1}. ${movie.title} (${movie.releaseDate}) – tmdb://movie/${movie.id}, rating ${movie.rating}`,
+				)
+				.join("\n");
+
+			const markdown = dedent`
+				# ${collection.name}
+
+				- TMDB ID: ${collection.id}
+				- Poster: ${collection.posterUrl || "N/A"}
+
+				${collection.overview}
+
+				## Movies
+
+				${parts || "No movies found in this collection."}
+			`;
+
+			return toResourceContents(collection, markdown);
+		} catch (error) {
+			throw toUserError(error, "Error loading collection");
+		}
+	},
+};
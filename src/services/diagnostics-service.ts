@@ -0,0 +1,147 @@
+import { z } from "zod";
+import { responseCache } from "../lib/cache.js";
+import { config } from "../lib/config.js";
+import { HttpError } from "../lib/errors.js";
+import type { CallOptions } from "../lib/http.js";
+import { upstreamMetrics } from "../lib/metrics.js";
+import { describeError } from "../lib/redact.js";
+import { requestScheduler } from "../lib/scheduler.js";
+import { OmdbService } from "./omdb-service.js";
+import { TmdbService } from "./tmdb-service.js";
+
+/**
+ * Result of probing one upstream API with the configured credentials.
+ */
+export const apiCheckSchema = z.object({
+	name: z.string(),
+	configured: z.boolean().describe("Whether credentials are set"),
+	status: z.string().describe('"OK", or the error code the probe failed with'),
+	latencyMs: z.number().nullable(),
+	error: z.string().nullable(),
+});
+
+export type ApiCheck = z.infer<typeof apiCheckSchema>;
+
+/**
+ * Server health report.
+ */
+export const diagnosticsSchema = z.object({
+	uptimeSeconds: z.number(),
+	apis: z.array(apiCheckSchema),
+	upstreams: z
+		.array(
+			z.object({
+				host: z.string(),
+				requests: z.number(),
+				errors: z.number(),
+				errorRate: z.number(),
+				averageLatencyMs: z.number(),
+				maxLatencyMs: z.number(),
+				lastError: z.string().nullable(),
+			}),
+		)
+		.describe("Upstream requests since startup, excluding cache hits"),
+	cache: z.object({
+		enabled: z.boolean(),
+		hits: z.number(),
+		misses: z.number(),
+		hitRatio: z.number().nullable(),
+		entries: z.number(),
+	}),
+	requests: z.object({
+		active: z.number(),
+		queued: z.number(),
+	}),
+	config: z
+		.record(z.string(), z.unknown())
+		.describe("Effective configuration with credentials redacted"),
+});
+
+export type Diagnostics = z.infer<typeof diagnosticsSchema>;
+
+/**
+ * Probes `check` and reports how it went.
+ */
+async function probe(
+	name: string,
+	configured: boolean,
+	check: () => Promise<void>,
+): Promise<ApiCheck> {
+	const startedAt = Date.now();
+	try {
+		await check();
+		return {
+			name,
+			configured,
+			status: "OK",
+			latencyMs: Date.now() - startedAt,
+			error: null,
+		};
+	} catch (error) {
+		return {
+			name,
+			configured,
+			status: error instanceof HttpError ? error.code : "UNKNOWN_ERROR",
+			latencyMs: configured ? Date.now() - startedAt : null,
+			error: describeError(error),
+		};
+	}
+}
+
+/**
+ * The effective configuration, with every credential that is set replaced
+ * by a placeholder.
+ */
+function redactedConfig(): Record<string, unknown> {
+	const redact = (secret: string) => (secret ? "[REDACTED]" : "");
+	return {
+		...config,
+		tmdbApi: {
+			...config.tmdbApi,
+			apiKey: redact(config.tmdbApi.apiKey),
+			accessToken: redact(config.tmdbApi.accessToken),
+		},
+		omdbApi: { ...config.omdbApi, apiKey: redact(config.omdbApi.apiKey) },
+	};
+}
+
+/**
+ * Reports the health of the server and its upstream APIs.
+ */
+export class DiagnosticsService {
+	/**
+	 * Probes both APIs with the configured credentials, bypassing the cache,
+	 * and collects request, cache and queue statistics since startup.
+	 */
+	async getDiagnostics(options: CallOptions = {}): Promise<Diagnostics> {
+		const tmdbService = new TmdbService();
+		const omdbService = new OmdbService();
+
+		const apis = await Promise.all([
+			probe(
+				"TMDB",
+				Boolean(config.tmdbApi.accessToken || config.tmdbApi.apiKey),
+				() => tmdbService.checkCredentials(options),
+			),
+			probe("OMDB", Boolean(config.omdbApi.apiKey), () =>
+				omdbService.checkApiKey(options),
+			),
+		]);
+
+		const { hits, misses, entries } = responseCache.stats;
+		return {
+			uptimeSeconds: Math.round(process.uptime()),
+			apis,
+			upstreams: upstreamMetrics.snapshot(),
+			cache: {
+				enabled: config.cache.enabled,
+				hits,
+				misses,
+				hitRatio: hits + misses ? hits / (hits + misses) : null,
+				entries,
+			},
+			requests: requestScheduler.stats,
+			config: redactedConfig(),
+		};
+	}
+}
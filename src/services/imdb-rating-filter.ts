@@ -0,0 +1,74 @@
+import {
+	NotFoundError,
+	RateLimitedError,
+	UpstreamUnavailableError,
+} from "../lib/errors.js";
+import { type CallOptions, trackStage } from "../lib/http.js";
+import { logger } from "../lib/logger.js";
+import { describeError } from "../lib/redact.js";
+import { OmdbService } from "./omdb-service.js";
+import { type TmdbItem, TmdbService } from "./tmdb-service.js";
+
+/**
+ * Failures that only concern one item, so the filter skips it and moves on;
+ * anything else, e.g. a missing or rejected API key, would fail every item
+ * the same way.
+ */
+function isItemFailure(error: unknown): boolean {
+	return (
+		error instanceof NotFoundError ||
+		error instanceof RateLimitedError ||
+		error instanceof UpstreamUnavailableError
+	);
+}
+
+/**
+ * Yields the movies and TV shows of `items`, in order, whose IMDb rating on
+ * OMDB is at least `minRating`, with their IMDb ID and watch providers
+ * filled in.
+ *
+ * Items are checked one at a time, so a caller that stops iterating once it
+ * has enough matches makes no further requests. Items without an IMDb ID
+ * or rating never match, and items whose lookup fails are skipped.
+ */
+export async function* filterByImdbRating(
+	items: TmdbItem[],
+	minRating: number,
+	options: CallOptions = {},
+): AsyncGenerator<TmdbItem> {
+	const tmdbService = new TmdbService();
+	const omdbService = new OmdbService();
+
+	const ratingChecked = trackStage(
+		options,
+		"Checking IMDb ratings",
+		items.length,
+	);
+	for (const candidate of items) {
+		let match: TmdbItem | null = null;
+		try {
+			// Only the signal: the details request is part of this stage
+			const [item] = await tmdbService.enrich(
+				[candidate],
+				["imdbId", "watchProviders"],
+				{ signal: options.signal },
+			);
+			const omdbDetails = item.imdbId
+				? await omdbService.getByImdbId(item.imdbId, options)
+				: null;
+			if (omdbDetails && parseFloat(omdbDetails.rating) >= minRating) {
+				match = item;
+			}
+		} catch (error) {
+			options.signal?.throwIfAborted();
+			if (!isItemFailure(error)) throw error;
+			logger.warning(
+				`Skipping ${candidate.type} ID ${candidate.id}: IMDb rating check failed`,
+				{ error: describeError(error) },
+			);
+		} finally {
+			ratingChecked();
+		}
+		if (match) yield match;
+	}
+}
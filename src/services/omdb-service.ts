@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { config } from "../lib/config.js";
-import { fetchJson } from "../lib/http.js";
+import { MissingApiKeyError, NotFoundError } from "../lib/errors.js";
+import { type CallOptions, fetchJson } from "../lib/http.js";
 
 /**
  * OMDB API Response Schema
@@ -40,25 +41,29 @@ const omdbMovieSchema = z.object({
 export type OmdbApiResponse = z.infer<typeof omdbMovieSchema>;
 
 /**
- * Normalized Interface
+ * Normalized OMDB title
  */
-export interface OmdbItem {
-	title: string;
-	year: string;
-	rating: string;
-	votes: string;
-	metascore: string;
-	released: string;
-	genre: string;
-	director: string;
-	writer: string;
-	actors: string;
-	plot: string;
-	posterUrl: string;
-	country: string;
-	language: string;
-	type: string;
-}
+export const omdbItemSchema = z.object({
+	imdbId: z.string(),
+	title: z.string(),
+	year: z.string(),
+	rating: z.string().describe("IMDb rating (0-10) or N/A"),
+	votes: z.string(),
+	metascore: z.string(),
+	released: z.string(),
+	runtime: z.string(),
+	genre: z.string(),
+	director: z.string(),
+	writer: z.string(),
+	actors: z.string(),
+	plot: z.string(),
+	posterUrl: z.string().describe("Poster image URL, empty if none"),
+	country: z.string(),
+	language: z.string(),
+	type: z.string().describe("movie, series or episode"),
+});
+
+export type OmdbItem = z.infer<typeof omdbItemSchema>;
 
 /**
  * OMDB Service
@@ -66,7 +71,6 @@ export interface OmdbItem {
 export class OmdbService {
 	private readonly apiKey: string;
 	private readonly baseUrl: string;
-	private cache = new Map<string, OmdbItem>(); // in-memory cache
 
 	constructor() {
 		this.apiKey = config.omdbApi?.apiKey ?? "";
@@ -74,17 +78,19 @@ export class OmdbService {
 	}
 
 	private validateApiKey() {
-		if (!this.apiKey) throw new Error("OMDB API key is not configured");
+		if (!this.apiKey) throw new MissingApiKeyError("OMDB", "OMDB_API_KEY");
 	}
 
 	private normalize(data: OmdbApiResponse): OmdbItem {
 		return {
+			imdbId: data.imdbID ?? "",
 			title: data.Title ?? "Unknown",
 			year: data.Year ?? "Unknown",
 			rating: data.imdbRating ?? "N/A",
 			votes: data.imdbVotes ?? "N/A",
 			metascore: data.Metascore ?? "N/A",
 			released: data.Released ?? "Unknown",
+			runtime: data.Runtime ?? "Unknown",
 			genre: data.Genre ?? "Unknown",
 			director: data.Director ?? "Unknown",
 			writer: data.Writer ?? "Unknown",
@@ -96,66 +102,91 @@ export class OmdbService {
 			type: data.Type ?? "movie",
 		};
 	}
+	/**
+	 * Fetches a title lookup; null when OMDB answers 404, which it treats
+	 * like a title it does not know.
+	 */
+	private async fetchTitle(
+		url: URL,
+		options: CallOptions,
+	): Promise<OmdbApiResponse | null> {
+		try {
+			return await fetchJson(
+				url.toString(),
+				{ signal: options.signal },
+				omdbMovieSchema,
+			);
+		} catch (error) {
+			if (error instanceof NotFoundError) return null;
+			throw error;
+		}
+	}
+
 	async getByTitle(
 		title: string,
 		type?: "movie" | "series" | "episode",
+		options: CallOptions = {},
 	): Promise<OmdbItem | null> {
 		this.validateApiKey();
 
-		const cacheKey = `title:${type ?? "auto"}:${title.toLowerCase()}`;
-		if (this.cache.has(cacheKey)) return this.cache.get(cacheKey) as OmdbItem;
+		const url = new URL(this.baseUrl);
+		url.searchParams.append("apikey", this.apiKey);
+		url.searchParams.append("t", title);
+		url.searchParams.append("plot", "full");
 
-		try {
-			const url = new URL(this.baseUrl);
-			url.searchParams.append("apikey", this.apiKey);
-			url.searchParams.append("t", title);
-			url.searchParams.append("plot", "full");
-
-			// Add type only if specified
-			if (type) url.searchParams.append("type", type);
-
-			const data = await fetchJson(url.toString(), undefined, omdbMovieSchema);
-
-			if (data.Response === "False") {
-				// 🔁 Retry automatically with the other type if not found
-				if (!type) {
-					const altType = data.Error?.includes("Series") ? "series" : "movie";
-					return this.getByTitle(title, altType as "movie" | "series");
-				}
-				return null;
-			}
+		// Add type only if specified
+		if (type) url.searchParams.append("type", type);
+
+		const data = await this.fetchTitle(url, options);
+		if (!data) return null;
 
-			const item = this.normalize(data);
-			this.cache.set(cacheKey, item);
-			return item;
-		} catch (err) {
-			console.error(`OMDB fetch failed for "${title}":`, err);
+		if (data.Response === "False") {
+			// 🔁 Retry automatically with the other type if not found
+			if (!type) {
+				const altType = data.Error?.includes("Series") ? "series" : "movie";
+				return this.getByTitle(title, altType as "movie" | "series", options);
+			}
 			return null;
 		}
+
+		return this.normalize(data);
 	}
 
-	async getByImdbId(imdbId: string): Promise<OmdbItem | null> {
+	async getByImdbId(
+		imdbId: string,
+		options: CallOptions = {},
+	): Promise<OmdbItem | null> {
 		this.validateApiKey();
 
-		const cacheKey = `id:${imdbId}`;
-		if (this.cache.has(cacheKey)) return this.cache.get(cacheKey) as OmdbItem;
+		const url = new URL(this.baseUrl);
+		url.searchParams.append("apikey", this.apiKey);
+		url.searchParams.append("i", imdbId);
+		url.searchParams.append("plot", "full");
 
-		try {
-			const url = new URL(this.baseUrl);
-			url.searchParams.append("apikey", this.apiKey);
-			url.searchParams.append("i", imdbId);
-			url.searchParams.append("plot", "full");
+		const data = await this.fetchTitle(url, options);
+		if (!data || data.Response === "False") return null;
 
-			const data = await fetchJson(url.toString(), undefined, omdbMovieSchema);
+		return this.normalize(data);
+	}
 
-			if (data.Response === "False") return null;
+	/**
+	 * Checks that OMDB accepts the API key, with a lookup that bypasses the
+	 * response cache.
+	 *
+	 * @throws MissingApiKeyError when no key is configured, or the HttpError
+	 * the lookup failed with
+	 */
+	async checkApiKey(options: CallOptions = {}): Promise<void> {
+		this.validateApiKey();
 
-			const item = this.normalize(data);
-			this.cache.set(cacheKey, item);
-			return item;
-		} catch (err) {
-			console.error(`OMDB fetch failed for IMDb ID "${imdbId}":`, err);
-			return null;
-		}
+		const url = new URL(this.baseUrl);
+		url.searchParams.append("apikey", this.apiKey);
+		url.searchParams.append("i", "tt0111161");
+
+		await fetchJson(
+			url.toString(),
+			{ signal: options.signal, cache: "no-store" },
+			omdbMovieSchema,
+		);
 	}
 }
@@ -1,67 +1,9 @@
 import { z } from "zod";
 import { config } from "../lib/config.js";
-import { fetchJson } from "../lib/http.js";
-
-/**
- * TMDB movie response schema
- */
-const tmdbMovieSchema = z.object({
-	page: z.number(),
-	results: z.array(
-		z.object({
-			id: z.number(),
-			imdb_id: z.string().nullable().optional(),
-			title: z.string(),
-			overview: z.string().nullable(),
-			release_date: z.string().nullable(),
-			vote_average: z.number().nullable(),
-			poster_path: z.string().nullable(),
-			original_language: z.string().nullable(),
-		}),
-	),
-	total_results: z.number(),
-	total_pages: z.number(),
-});
-
-/**
- * TMDB movie details schema
- */
-const tmdbMovieDetailsSchema = z.object({
-	imdb_id: z.string().nullable().optional(),
-});
-
-/**
- * TMDB TV show response schema
- */
-const tmdbTvSchema = z.object({
-	page: z.number(),
-	results: z.array(
-		z.object({
-			id: z.number(),
-			imdb_id: z.string().nullable().optional(),
-			name: z.string(),
-			overview: z.string().nullable(),
-			first_air_date: z.string().nullable(),
-			vote_average: z.number().nullable(),
-			poster_path: z.string().nullable(),
-			original_language: z.string().nullable(),
-		}),
-	),
-	total_results: z.number(),
-	total_pages: z.number(),
-});
-
-/**
- * TMDB TV show details schema
- */
-const tmdbTvDetailsSchema = z.object({
-	external_ids: z
-		.object({
-			imdb_id: z.string().nullable().optional(),
-		})
-		.nullable()
-		.optional(),
-});
+import { MissingApiKeyError, NotFoundError } from "../lib/errors.js";
+import { type CallOptions, fetchJson, trackStage } from "../lib/http.js";
+import { logger } from "../lib/logger.js";
+import { describeError } from "../lib/redact.js";
 
 const tmdbWatchProviderDetailsSchema = z.object({
 	display_priority: z.number(),
@@ -84,140 +26,233 @@ const tmdbWatchProvidersResponseSchema = z.object({
 	results: z.record(z.string(), tmdbWatchProvidersSchema).optional(),
 });
 
-type TmdbMovieResponse = z.infer<typeof tmdbMovieSchema>;
-type TmdbTvResponse = z.infer<typeof tmdbTvSchema>;
-type TmdbWatchProvidersResponse = z.infer<
-	typeof tmdbWatchProvidersResponseSchema
->;
+/**
+ * TMDB Genre List Item Schema
+ */
+const tmdbGenreSchema = z.object({
+	id: z.number(),
+	name: z.string(),
+});
 
 /**
- * TMDB Trending Item Schema (Common for movies and TV shows)
+ * Movie or TV show as returned by TMDB list endpoints (search, discover,
+ * trending, popular). Movies have a title and release date, TV shows a name
+ * and first air date.
  */
-const tmdbTrendingItemSchema = z.object({
+const tmdbListItemSchema = z.object({
 	id: z.number(),
 	title: z.string().optional(), // For movies
 	name: z.string().optional(), // For TV shows
-	overview: z.string().nullable(),
+	overview: z.string().nullable().optional(),
 	release_date: z.string().nullable().optional(), // For movies
 	first_air_date: z.string().nullable().optional(), // For TV shows
-	vote_average: z.number().nullable(),
-	poster_path: z.string().nullable(),
-	original_language: z.string().nullable(),
-	media_type: z.enum(["movie", "tv", "person"]), // Indicate if it's a movie or TV show
+	vote_average: z.number().nullable().optional(),
+	poster_path: z.string().nullable().optional(),
+	original_language: z.string().nullable().optional(),
+	media_type: z.string().optional(), // Only in responses that mix types
 });
 
 /**
- * TMDB Trending Response Schema
+ * TMDB paged list response schema
  */
-const tmdbTrendingResponseSchema = z.object({
+const tmdbListResponseSchema = z.object({
 	page: z.number(),
-	results: z.array(tmdbTrendingItemSchema),
-	total_pages: z.number(),
+	results: z.array(tmdbListItemSchema),
 	total_results: z.number(),
+	total_pages: z.number(),
 });
 
-type TmdbTrendingResponse = z.infer<typeof tmdbTrendingResponseSchema>;
-
 /**
- * TMDB Popular Movie Response Schema
+ * TMDB movie or TV show details schema, including the sub-resources that
+ * enrichment appends with `append_to_response`
  */
-const tmdbPopularMovieSchema = z.object({
-	page: z.number(),
-	results: z.array(
-		z.object({
-			id: z.number(),
-			title: z.string(),
-			overview: z.string().nullable(),
-			release_date: z.string().nullable(),
-			vote_average: z.number().nullable(),
-			poster_path: z.string().nullable(),
-			original_language: z.string().nullable(),
-		}),
-	),
-	total_results: z.number(),
-	total_pages: z.number(),
+const tmdbItemDetailsSchema = tmdbListItemSchema.extend({
+	imdb_id: z.string().nullable().optional(), // For movies
+	runtime: z.number().nullable().optional(), // For movies
+	episode_run_time: z.array(z.number()).optional(), // For TV shows
+	external_ids: z
+		.object({
+			imdb_id: z.string().nullable().optional(),
+		})
+		.nullable()
+		.optional(),
+	"watch/providers": tmdbWatchProvidersResponseSchema
+		.omit({ id: true })
+		.optional(),
+	release_dates: z
+		.object({
+			results: z.array(
+				z.object({
+					iso_3166_1: z.string(),
+					release_dates: z.array(z.object({ certification: z.string() })),
+				}),
+			),
+		})
+		.optional(), // For movies
+	content_ratings: z
+		.object({
+			results: z.array(
+				z.object({
+					iso_3166_1: z.string(),
+					rating: z.string(),
+				}),
+			),
+		})
+		.optional(), // For TV shows
 });
 
 /**
- * TMDB Popular TV Show Response Schema
+ * TMDB full movie details schema, with the credits, videos, keywords,
+ * release dates, external IDs and watch providers appended in one request
  */
-const tmdbPopularTvSchema = z.object({
-	page: z.number(),
-	results: z.array(
+const tmdbMovieDetailsSchema = tmdbItemDetailsSchema.extend({
+	tagline: z.string().nullable().optional(),
+	genres: z.array(tmdbGenreSchema),
+	budget: z.number(),
+	revenue: z.number(),
+	production_companies: z.array(
 		z.object({
 			id: z.number(),
 			name: z.string(),
-			overview: z.string().nullable(),
-			first_air_date: z.string().nullable(),
-			vote_average: z.number().nullable(),
-			poster_path: z.string().nullable(),
-			original_language: z.string().nullable(),
+			origin_country: z.string().optional(),
 		}),
 	),
-	total_results: z.number(),
-	total_pages: z.number(),
+	credits: z.object({
+		cast: z.array(
+			z.object({
+				id: z.number(),
+				name: z.string(),
+				character: z.string().nullable().optional(),
+				order: z.number(),
+			}),
+		),
+		crew: z.array(
+			z.object({
+				id: z.number(),
+				name: z.string(),
+				department: z.string(),
+				job: z.string(),
+			}),
+		),
+	}),
+	videos: z.object({
+		results: z.array(
+			z.object({
+				name: z.string(),
+				key: z.string(),
+				site: z.string(),
+				type: z.string(),
+				official: z.boolean().optional(),
+				published_at: z.string().optional(),
+			}),
+		),
+	}),
+	keywords: z.object({
+		keywords: z.array(z.object({ id: z.number(), name: z.string() })),
+	}),
+	external_ids: z.object({
+		imdb_id: z.string().nullable().optional(),
+		wikidata_id: z.string().nullable().optional(),
+		facebook_id: z.string().nullable().optional(),
+		instagram_id: z.string().nullable().optional(),
+		twitter_id: z.string().nullable().optional(),
+	}),
 });
 
-type TmdbPopularMovieResponse = z.infer<typeof tmdbPopularMovieSchema>;
-type TmdbPopularTvResponse = z.infer<typeof tmdbPopularTvSchema>;
-
 /**
- * TMDB Genre List Item Schema
+ * TMDB TV episode schema, as listed in seasons and as a show's last or next
+ * episode
  */
-const tmdbGenreSchema = z.object({
+const tmdbEpisodeSchema = z.object({
 	id: z.number(),
 	name: z.string(),
+	overview: z.string().nullable().optional(),
+	air_date: z.string().nullable().optional(),
+	season_number: z.number(),
+	episode_number: z.number(),
+	vote_average: z.number().nullable().optional(),
+	runtime: z.number().nullable().optional(),
+	still_path: z.string().nullable().optional(),
 });
 
 /**
- * TMDB Genre List Response Schema
+ * TMDB full TV show details schema, with external IDs, content ratings and
+ * watch providers appended
  */
-const tmdbGenreListResponseSchema = z.object({
+const tmdbTvDetailsSchema = tmdbItemDetailsSchema.extend({
+	status: z.string().nullable().optional(),
 	genres: z.array(tmdbGenreSchema),
+	networks: z.array(z.object({ id: z.number(), name: z.string() })),
+	created_by: z.array(z.object({ id: z.number(), name: z.string() })),
+	number_of_seasons: z.number().nullable().optional(),
+	number_of_episodes: z.number().nullable().optional(),
+	last_episode_to_air: tmdbEpisodeSchema.nullable().optional(),
+	next_episode_to_air: tmdbEpisodeSchema.nullable().optional(),
+	seasons: z.array(
+		z.object({
+			season_number: z.number(),
+			name: z.string(),
+			episode_count: z.number().nullable().optional(),
+			air_date: z.string().nullable().optional(),
+		}),
+	),
 });
 
-type TmdbGenreListResponse = z.infer<typeof tmdbGenreListResponseSchema>;
+/**
+ * TMDB TV season details schema
+ */
+const tmdbSeasonDetailsSchema = z.object({
+	id: z.number(),
+	name: z.string(),
+	overview: z.string().nullable().optional(),
+	air_date: z.string().nullable().optional(),
+	season_number: z.number(),
+	poster_path: z.string().nullable().optional(),
+	episodes: z.array(tmdbEpisodeSchema),
+});
 
 /**
- * TMDB Discover Movie Response Schema (similar to tmdbMovieSchema but for discover endpoint)
+ * TMDB TV episode details schema
  */
-const tmdbDiscoverMovieSchema = z.object({
-	page: z.number(),
-	results: z.array(
+const tmdbEpisodeDetailsSchema = tmdbEpisodeSchema.extend({
+	crew: z.array(
 		z.object({
 			id: z.number(),
-			title: z.string(),
-			overview: z.string().nullable(),
-			release_date: z.string().nullable(),
-			vote_average: z.number().nullable(),
-			poster_path: z.string().nullable(),
-			original_language: z.string().nullable(),
+			name: z.string(),
+			job: z.string(),
 		}),
 	),
-	total_results: z.number(),
-	total_pages: z.number(),
-});
-
-/**
- * TMDB Discover TV Response Schema (similar to tmdbTvSchema but for discover endpoint)
- */
-const tmdbDiscoverTvSchema = z.object({
-	page: z.number(),
-	results: z.array(
+	guest_stars: z.array(
 		z.object({
 			id: z.number(),
 			name: z.string(),
-			overview: z.string().nullable(),
-			first_air_date: z.string().nullable(),
-			vote_average: z.number().nullable(),
-			poster_path: z.string().nullable(),
-			original_language: z.string().nullable(),
+			character: z.string().nullable().optional(),
 		}),
 	),
-	total_results: z.number(),
-	total_pages: z.number(),
 });
 
+type TmdbListItem = z.infer<typeof tmdbListItemSchema>;
+type TmdbMovieDetailsResponse = z.infer<typeof tmdbMovieDetailsSchema>;
+type TmdbEpisodeResponse = z.infer<typeof tmdbEpisodeSchema>;
+type TmdbTvDetailsResponse = z.infer<typeof tmdbTvDetailsSchema>;
+type TmdbSeasonDetailsResponse = z.infer<typeof tmdbSeasonDetailsSchema>;
+type TmdbEpisodeDetailsResponse = z.infer<typeof tmdbEpisodeDetailsSchema>;
+type TmdbPersonDetailsResponse = z.infer<typeof tmdbPersonDetailsSchema>;
+type TmdbPersonCreditsResponse = z.infer<typeof tmdbPersonCreditsSchema>;
+type TmdbReleaseDatesResponse = z.infer<typeof tmdbReleaseDatesSchema>;
+type TmdbProviderListResponse = z.infer<typeof tmdbProviderListSchema>;
+type TmdbListResponse = z.infer<typeof tmdbListResponseSchema>;
+type TmdbItemDetails = z.infer<typeof tmdbItemDetailsSchema>;
+
+/**
+ * TMDB Genre List Response Schema
+ */
+const tmdbGenreListResponseSchema = z.object({
+	genres: z.array(tmdbGenreSchema),
+});
+
+type TmdbGenreListResponse = z.infer<typeof tmdbGenreListResponseSchema>;
+
 const tmdbPersonSchema = z.object({
 	id: z.number(),
 	name: z.string(),
@@ -243,10 +278,76 @@ const tmdbPersonSearchResponseSchema = z.object({
 	total_results: z.number(),
 });
 
-type TmdbDiscoverMovieResponse = z.infer<typeof tmdbDiscoverMovieSchema>;
-type TmdbDiscoverTvResponse = z.infer<typeof tmdbDiscoverTvSchema>;
 type TmdbPersonSearchResponse = z.infer<typeof tmdbPersonSearchResponseSchema>;
 
+/**
+ * TMDB multi search response schema; results mix movies, TV shows and people
+ */
+const tmdbMultiSearchResponseSchema = z.object({
+	page: z.number(),
+	results: z.array(
+		z.discriminatedUnion("media_type", [
+			tmdbListItemSchema.extend({ media_type: z.enum(["movie", "tv"]) }),
+			tmdbPersonSchema.extend({ media_type: z.literal("person") }),
+		]),
+	),
+	total_pages: z.number(),
+	total_results: z.number(),
+});
+
+type TmdbMultiSearchResponse = z.infer<typeof tmdbMultiSearchResponseSchema>;
+
+/**
+ * TMDB external IDs schema, shared by movies, TV shows, episodes and people;
+ * each only has some of them
+ */
+const tmdbExternalIdsSchema = z.object({
+	imdb_id: z.string().nullable().optional(),
+	tvdb_id: z.number().nullable().optional(),
+	wikidata_id: z.string().nullable().optional(),
+	facebook_id: z.string().nullable().optional(),
+	instagram_id: z.string().nullable().optional(),
+	twitter_id: z.string().nullable().optional(),
+	tiktok_id: z.string().nullable().optional(),
+	youtube_id: z.string().nullable().optional(),
+});
+
+/**
+ * TMDB find response schema, matches of an external ID by media type
+ */
+const tmdbFindResponseSchema = z.object({
+	movie_results: z.array(tmdbListItemSchema),
+	tv_results: z.array(tmdbListItemSchema),
+	tv_episode_results: z.array(
+		tmdbEpisodeSchema.extend({ show_id: z.number() }),
+	),
+	person_results: z.array(tmdbPersonSchema),
+});
+
+/**
+ * TMDB movie or TV show, episode and person details schemas, with external
+ * IDs appended
+ */
+const tmdbItemExternalIdsSchema = tmdbListItemSchema.extend({
+	external_ids: tmdbExternalIdsSchema,
+});
+const tmdbEpisodeExternalIdsSchema = tmdbEpisodeSchema.extend({
+	external_ids: tmdbExternalIdsSchema,
+});
+const tmdbPersonExternalIdsSchema = tmdbPersonSchema.extend({
+	external_ids: tmdbExternalIdsSchema,
+});
+
+type TmdbExternalIdsResponse = z.infer<typeof tmdbExternalIdsSchema>;
+type TmdbFindResponse = z.infer<typeof tmdbFindResponseSchema>;
+type TmdbItemExternalIdsResponse = z.infer<typeof tmdbItemExternalIdsSchema>;
+type TmdbEpisodeExternalIdsResponse = z.infer<
+	typeof tmdbEpisodeExternalIdsSchema
+>;
+type TmdbPersonExternalIdsResponse = z.infer<
+	typeof tmdbPersonExternalIdsSchema
+>;
+
 /**
  * TMDB Collection Item Schema (for search results)
  */
@@ -290,6 +391,89 @@ const tmdbCollectionDetailsSchema = z.object({
 	),
 });
 
+/**
+ * TMDB Person Details Schema
+ */
+const tmdbPersonDetailsSchema = z.object({
+	id: z.number(),
+	name: z.string(),
+	imdb_id: z.string().nullable().optional(),
+	biography: z.string().nullable(),
+	birthday: z.string().nullable(),
+	deathday: z.string().nullable(),
+	place_of_birth: z.string().nullable(),
+	popularity: z.number(),
+	known_for_department: z.string().nullable().optional(),
+	profile_path: z.string().nullable(),
+});
+
+/**
+ * TMDB person details schema with combined movie and TV credits appended
+ */
+const tmdbPersonCreditsSchema = tmdbPersonDetailsSchema.extend({
+	combined_credits: z.object({
+		cast: z.array(
+			tmdbListItemSchema.extend({
+				media_type: z.enum(["movie", "tv"]),
+				popularity: z.number().nullable().optional(),
+				character: z.string().nullable().optional(),
+				episode_count: z.number().nullable().optional(),
+			}),
+		),
+		crew: z.array(
+			tmdbListItemSchema.extend({
+				media_type: z.enum(["movie", "tv"]),
+				popularity: z.number().nullable().optional(),
+				department: z.string(),
+				job: z.string(),
+				episode_count: z.number().nullable().optional(),
+			}),
+		),
+	}),
+});
+
+/**
+ * TMDB watch provider list schema, for one media type
+ */
+const tmdbProviderListSchema = z.object({
+	results: z.array(
+		z.object({
+			provider_id: z.number(),
+			provider_name: z.string(),
+			logo_path: z.string().nullable().optional(),
+			display_priority: z.number().optional(),
+			display_priorities: z.record(z.string(), z.number()).optional(),
+		}),
+	),
+});
+
+/**
+ * TMDB movie release dates schema, per country
+ */
+const tmdbReleaseDatesSchema = z.object({
+	id: z.number(),
+	results: z.array(
+		z.object({
+			iso_3166_1: z.string(),
+			release_dates: z.array(
+				z.object({
+					certification: z.string(),
+					release_date: z.string(),
+					type: z.number(),
+					note: z.string().nullable().optional(),
+				}),
+			),
+		}),
+	),
+});
+
+/**
+ * TMDB Authentication Check Schema
+ */
+const tmdbAuthenticationSchema = z.object({
+	success: z.boolean(),
+});
+
 type TmdbCollectionSearchResponse = z.infer<
 	typeof tmdbCollectionSearchResponseSchema
 >;
@@ -298,501 +482,1507 @@ type TmdbCollectionDetailsResponse = z.infer<
 >;
 
 /**
- * Common data interface for movie or TV show
+ * Normalized movie or TV show returned by TmdbService.
  */
-export interface TmdbItem {
-	id: number;
-	imdbId: string | null | undefined;
-	title: string;
-	description: string;
-	releaseDate: string | null;
-	rating: number;
-	posterUrl: string;
-	language: string;
-	type: "movie" | "tv";
-	watchProviders?: TmdbWatchProvidersResponse["results"];
-}
-
-export interface TmdbPerson {
-	id: number;
-	name: string;
-	popularity: number;
-	knownForDepartment: string;
-	profilePath: string;
-	knownFor: string;
-}
+export const tmdbItemSchema = z.object({
+	id: z.number().describe("TMDB ID"),
+	imdbId: z.string().nullable().optional().describe("IMDb ID, if known"),
+	title: z.string(),
+	description: z.string(),
+	releaseDate: z
+		.string()
+		.nullable()
+		.describe("Release or first air date (YYYY-MM-DD)"),
+	rating: z.number().describe("TMDB user rating (0-10)"),
+	posterUrl: z.string().describe("Poster image URL, empty if none"),
+	language: z.string().describe("Original language (ISO 639-1)"),
+	type: z.enum(["movie", "tv"]),
+	watchProviders: tmdbWatchProvidersResponseSchema.shape.results.describe(
+		"Streaming, rental and purchase options keyed by country code",
+	),
+	runtime: z
+		.number()
+		.nullable()
+		.optional()
+		.describe("Runtime in minutes; episode runtime for TV shows"),
+	certification: z
+		.string()
+		.nullable()
+		.optional()
+		.describe("Age rating in the configured watch region"),
+});
 
-export interface TmdbCollection {
-	id: number;
-	name: string;
-	overview: string;
-	posterUrl: string;
-	backdropUrl: string;
-	parts: {
-		// Simplified to match TmdbItem structure where possible
-		id: number;
-		title: string;
-		releaseDate: string;
-		posterUrl: string;
-		description: string;
-		rating: number;
-	}[];
-}
+export type TmdbItem = z.infer<typeof tmdbItemSchema>;
 
 /**
- * Service class for interacting with TMDB API.
- * Supports fetching both movies and TV shows.
+ * Fields of a movie or TV show that list endpoints do not return. Filling
+ * them in takes a details request per item; see TmdbService.enrich.
  */
-export class TmdbService {
-	private readonly apiKey: string;
-	private readonly baseUrl: string;
-
-	constructor() {
-		this.apiKey = config.tmdbApi.apiKey;
-		this.baseUrl = config.tmdbApi.baseUrl;
-	}
+export const tmdbEnrichments = [
+	"imdbId",
+	"watchProviders",
+	"runtime",
+	"certification",
+] as const;
 
-	/**
-	 * Fetches movies by title.
-	 */
-	async getMovieByTitle(title: string): Promise<TmdbItem[]> {
-		if (!this.apiKey) {
-			throw new Error("TMDB API key is not configured");
-		}
+export type TmdbEnrichment = (typeof tmdbEnrichments)[number];
 
-		const url = new URL(`${this.baseUrl}/search/movie`);
-		url.searchParams.append("api_key", this.apiKey);
-		url.searchParams.append("query", title);
-		url.searchParams.append("language", "en-US");
+/**
+ * Options accepted by TmdbService methods that return lists of movies or
+ * TV shows.
+ */
+export interface TmdbListOptions extends CallOptions {
+	/** Maximum number of items to return. */
+	limit?: number;
+	/** Fields to fill in on the returned items, after `limit` is applied. */
+	enrich?: TmdbEnrichment[];
+}
 
-		const data = await fetchJson<TmdbMovieResponse>(
-			url.toString(),
-			undefined,
-			tmdbMovieSchema,
-			4,
-			1000,
-		);
+/**
+ * Filters of TmdbService.discover. Person, certification and network filters
+ * only apply to the media type TMDB supports them for; see discoverSupport.
+ */
+export interface TmdbDiscoverFilters {
+	/** Genre IDs to include. */
+	genres?: number[];
+	/** Whether results need every genre ("all") or one of them ("any"). Defaults to "all". */
+	genreMatch?: "all" | "any";
+	/** Genre IDs to exclude. */
+	withoutGenres?: number[];
+	/** Release (first air) year. */
+	year?: number;
+	/** Earliest release (first air) date, YYYY-MM-DD. */
+	releasedFrom?: string;
+	/** Latest release (first air) date, YYYY-MM-DD. */
+	releasedTo?: string;
+	minRating?: number;
+	maxRating?: number;
+	minVotes?: number;
+	maxVotes?: number;
+	/** Minimum runtime in minutes. */
+	minRuntime?: number;
+	/** Maximum runtime in minutes. */
+	maxRuntime?: number;
+	/** ISO 639-1 code. */
+	originalLanguage?: string;
+	/** Movies only; in `certificationCountry`, or the configured watch region. */
+	certification?: string;
+	certificationCountry?: string;
+	/** Keyword IDs; results need one of them. */
+	keywords?: number[];
+	/** Production company IDs; results need one of them. */
+	companies?: number[];
+	/** TV only; network IDs, results need one of them. */
+	networks?: number[];
+	/** Movies only; person IDs, results need all of them in the cast. */
+	cast?: number[];
+	/** Movies only; person IDs, results need all of them in the crew. */
+	crew?: number[];
+	/** Watch provider IDs; results need one of them in `watchRegion`. */
+	watchProviders?: number[];
+	/** Defaults to the configured watch region. */
+	watchRegion?: string;
+	/** How the title is offered on `watchProviders`; any of them. */
+	watchMonetizationTypes?: TmdbMonetizationType[];
+	/** Defaults to "popularity". */
+	sortBy?: TmdbDiscoverSort;
+	/** Defaults to "desc". */
+	sortOrder?: "asc" | "desc";
+	/** 1-based page of TMDB results, 20 per page. */
+	page?: number;
+}
 
-		const moviesWithImdbId = await Promise.all(
-			data.results.map(async (movie) => {
-				const detailsUrl = new URL(`${this.baseUrl}/movie/${movie.id}`);
-				detailsUrl.searchParams.append("api_key", this.apiKey);
+export const tmdbDiscoverSorts = [
+	"popularity",
+	"rating",
+	"votes",
+	"releaseDate",
+	"title",
+	"revenue",
+] as const;
 
-				const movieDetails = await fetchJson<
-					z.infer<typeof tmdbMovieDetailsSchema>
-				>(detailsUrl.toString(), undefined, tmdbMovieDetailsSchema, 4, 1000);
+export type TmdbDiscoverSort = (typeof tmdbDiscoverSorts)[number];
 
-				return { ...movie, imdb_id: movieDetails.imdb_id };
-			}),
-		);
+/**
+ * Media types each media-type-specific discover filter or sort order is
+ * supported for; the rest apply to both.
+ */
+export const discoverSupport = {
+	certification: "movie",
+	cast: "movie",
+	crew: "movie",
+	revenue: "movie",
+	networks: "tv",
+} as const;
 
-		const moviesWithWatchProviders = await Promise.all(
-			moviesWithImdbId.map(async (movie) => ({
-				id: movie.id,
-				imdbId: movie.imdb_id ?? null,
-				title: movie.title,
-				description: movie.overview ?? "No description available.",
-				releaseDate: movie.release_date ?? "Unknown",
-				rating: movie.vote_average ?? 0,
-				posterUrl: movie.poster_path
-					? `https://image.tmdb.org/t/p/w500${movie.poster_path}`
-					: "",
-				language: movie.original_language ?? "Unknown",
-				type: "movie" as const,
-				watchProviders: await this.getWatchProviders("movie", movie.id),
-			})),
-		);
-		return moviesWithWatchProviders;
-	}
+/**
+ * TMDB `sort_by` field for each sort order, per media type.
+ */
+const discoverSortFields: Record<
+	TmdbDiscoverSort,
+	Partial<Record<"movie" | "tv", string>>
+> = {
+	popularity: { movie: "popularity", tv: "popularity" },
+	rating: { movie: "vote_average", tv: "vote_average" },
+	votes: { movie: "vote_count", tv: "vote_count" },
+	releaseDate: { movie: "primary_release_date", tv: "first_air_date" },
+	title: { movie: "title", tv: "name" },
+	revenue: { movie: "revenue" },
+};
 
-	/**
+/**
+ * Normalized full movie record returned by TmdbService.getMovieDetails.
+ */
+export const tmdbMovieDetailsResultSchema = tmdbItemSchema.extend({
+	tagline: z.string(),
+	genres: z.array(z.string()),
+	budget: z.number().describe("Budget in US dollars, 0 if unknown"),
+	revenue: z
+		.number()
+		.describe("Box office revenue in US dollars, 0 if unknown"),
+	productionCompanies: z.array(z.string()),
+	cast: z
+		.array(
+			z.object({
+				id: z.number().describe("TMDB person ID"),
+				name: z.string(),
+				character: z.string(),
+			}),
+		)
+		.describe("Top-billed cast, in billing order"),
+	crew: z
+		.array(
+			z.object({
+				id: z.number().describe("TMDB person ID"),
+				name: z.string(),
+				job: z.string(),
+			}),
+		)
+		.describe("Directors, writers and composers"),
+	keywords: z.array(z.string()),
+	trailers: z.array(
+		z.object({
+			name: z.string(),
+			url: z.string(),
+			official: z.boolean(),
+		}),
+	),
+	certifications: z
+		.record(z.string(), z.string())
+		.describe("Age rating keyed by country code"),
+	externalIds: z.object({
+		imdb: z.string().nullable(),
+		wikidata: z.string().nullable(),
+		facebook: z.string().nullable(),
+		instagram: z.string().nullable(),
+		twitter: z.string().nullable(),
+	}),
+});
+
+export type TmdbMovieDetails = z.infer<typeof tmdbMovieDetailsResultSchema>;
+
+/**
+ * Normalized TV episode returned by TmdbService.
+ */
+export const tmdbEpisodeResultSchema = z.object({
+	id: z.number().describe("TMDB episode ID"),
+	seasonNumber: z.number(),
+	episodeNumber: z.number(),
+	name: z.string(),
+	overview: z.string(),
+	airDate: z.string().nullable().describe("Air date (YYYY-MM-DD)"),
+	rating: z.number().describe("TMDB user rating (0-10)"),
+	runtime: z.number().nullable().describe("Runtime in minutes"),
+	stillUrl: z.string().describe("Still image URL, empty if none"),
+});
+
+export type TmdbEpisode = z.infer<typeof tmdbEpisodeResultSchema>;
+
+/**
+ * Normalized full TV show record returned by TmdbService.getTvShowDetails.
+ */
+export const tmdbTvDetailsResultSchema = tmdbItemSchema.extend({
+	status: z.string().describe('e.g. "Returning Series", "Ended"'),
+	genres: z.array(z.string()),
+	networks: z.array(z.string()),
+	creators: z.array(
+		z.object({
+			id: z.number().describe("TMDB person ID"),
+			name: z.string(),
+		}),
+	),
+	numberOfSeasons: z.number(),
+	numberOfEpisodes: z.number(),
+	lastEpisodeToAir: tmdbEpisodeResultSchema.nullable(),
+	nextEpisodeToAir: tmdbEpisodeResultSchema
+		.nullable()
+		.describe("Null when no episode is scheduled"),
+	seasons: z.array(
+		z.object({
+			seasonNumber: z.number().describe("0 for specials"),
+			name: z.string(),
+			episodeCount: z.number(),
+			airDate: z.string().nullable(),
+		}),
+	),
+});
+
+export type TmdbTvDetails = z.infer<typeof tmdbTvDetailsResultSchema>;
+
+/**
+ * Normalized TV season returned by TmdbService.getSeasonDetails.
+ */
+export const tmdbSeasonResultSchema = z.object({
+	id: z.number().describe("TMDB season ID"),
+	tvId: z.number().describe("TMDB TV show ID"),
+	seasonNumber: z.number(),
+	name: z.string(),
+	overview: z.string(),
+	airDate: z.string().nullable(),
+	posterUrl: z.string().describe("Poster image URL, empty if none"),
+	episodes: z.array(tmdbEpisodeResultSchema),
+});
+
+export type TmdbSeason = z.infer<typeof tmdbSeasonResultSchema>;
+
+/**
+ * Normalized TV episode with its credits, returned by
+ * TmdbService.getEpisodeDetails.
+ */
+export const tmdbEpisodeDetailsResultSchema = tmdbEpisodeResultSchema.extend({
+	tvId: z.number().describe("TMDB TV show ID"),
+	guestStars: z.array(
+		z.object({
+			id: z.number().describe("TMDB person ID"),
+			name: z.string(),
+			character: z.string(),
+		}),
+	),
+	crew: z.array(
+		z.object({
+			id: z.number().describe("TMDB person ID"),
+			name: z.string(),
+			job: z.string(),
+		}),
+	),
+});
+
+export type TmdbEpisodeDetails = z.infer<typeof tmdbEpisodeDetailsResultSchema>;
+
+/**
+ * Normalized person search result returned by TmdbService.
+ */
+export const tmdbPersonResultSchema = z.object({
+	id: z.number().describe("TMDB person ID"),
+	name: z.string(),
+	popularity: z.number(),
+	knownForDepartment: z.string(),
+	profilePath: z.string().describe("Profile image URL, empty if none"),
+	knownFor: z.string().describe("Comma-separated titles they are known for"),
+});
+
+export type TmdbPerson = z.infer<typeof tmdbPersonResultSchema>;
+
+/**
+ * Normalized person profile returned by TmdbService.
+ */
+export const tmdbPersonProfileSchema = z.object({
+	id: z.number().describe("TMDB person ID"),
+	imdbId: z.string().nullable(),
+	name: z.string(),
+	biography: z.string(),
+	birthday: z.string().nullable(),
+	deathday: z.string().nullable(),
+	placeOfBirth: z.string().nullable(),
+	popularity: z.number(),
+	knownForDepartment: z.string(),
+	profilePath: z.string().describe("Profile image URL, empty if none"),
+});
+
+export type TmdbPersonProfile = z.infer<typeof tmdbPersonProfileSchema>;
+
+/**
+ * One movie or TV credit of a person, as cast or crew.
+ */
+export const tmdbCreditSchema = z.object({
+	id: z.number().describe("TMDB movie or TV show ID"),
+	mediaType: z.enum(["movie", "tv"]),
+	title: z.string(),
+	releaseDate: z
+		.string()
+		.nullable()
+		.describe("Release or first air date (YYYY-MM-DD)"),
+	department: z.string().describe('"Acting" for cast credits'),
+	role: z.string().describe("Character played, or crew job"),
+	episodeCount: z.number().nullable().describe("For TV credits"),
+	rating: z.number().describe("TMDB user rating (0-10)"),
+	popularity: z.number(),
+});
+
+export type TmdbCredit = z.infer<typeof tmdbCreditSchema>;
+
+/**
+ * Filtering, sorting and paging of a person's credits.
+ */
+export interface TmdbCreditQuery {
+	mediaType?: "movie" | "tv";
+	/** Department name, e.g. "Acting", "Directing", "Writing"; any case. */
+	department?: string;
+	fromYear?: number;
+	toYear?: number;
+	/** Newest first, or most popular first. Defaults to "date". */
+	sortBy?: "date" | "popularity";
+	/** 1-based page number. Defaults to 1. */
+	page?: number;
+	/** Defaults to 20. */
+	pageSize?: number;
+}
+
+/**
+ * Normalized person profile with one page of their filmography, returned by
+ * TmdbService.getPersonDetails.
+ */
+export const tmdbPersonDetailsResultSchema = tmdbPersonProfileSchema.extend({
+	credits: z.array(tmdbCreditSchema),
+	page: z.number(),
+	totalPages: z.number(),
+	totalCredits: z.number().describe("Credits matching the filters"),
+	departments: z
+		.array(z.string())
+		.describe("Every department the person has credits in"),
+});
+
+export type TmdbPersonDetails = z.infer<typeof tmdbPersonDetailsResultSchema>;
+
+/**
+ * Normalized multi search result: a movie or TV show, or a person, told
+ * apart by `type`.
+ */
+export const tmdbSearchResultSchema = z.union([
+	tmdbItemSchema,
+	tmdbPersonResultSchema.extend({ type: z.literal("person") }),
+]);
+
+export type TmdbSearchResult = z.infer<typeof tmdbSearchResultSchema>;
+
+/**
+ * One page of multi search results, returned by TmdbService.searchMulti.
+ */
+export const tmdbMultiSearchResultSchema = z.object({
+	results: z.array(tmdbSearchResultSchema),
+	page: z.number(),
+	totalPages: z.number(),
+	totalResults: z.number().describe("Results on every page"),
+});
+
+export type TmdbMultiSearch = z.infer<typeof tmdbMultiSearchResultSchema>;
+
+/**
+ * Paging and disambiguation of a multi search.
+ */
+export interface TmdbMultiSearchQuery {
+	/** 1-based page number. Defaults to 1. */
+	page?: number;
+	/** Defaults to false. */
+	includeAdult?: boolean;
+	/** Ranks results of this type first. */
+	type?: "movie" | "tv" | "person";
+	/** Ranks movies and TV shows released (first aired) this year first. */
+	year?: number;
+}
+
+/**
+ * Sources of the external IDs TMDB cross-references.
+ */
+export const tmdbExternalSources = [
+	"imdb",
+	"tvdb",
+	"wikidata",
+	"facebook",
+	"instagram",
+	"twitter",
+	"tiktok",
+	"youtube",
+] as const;
+
+export type TmdbExternalSource = (typeof tmdbExternalSources)[number];
+
+/**
+ * Normalized external IDs of a movie, TV show, episode or person, null where
+ * TMDB has none.
+ */
+export const tmdbExternalIdsResultSchema = z.object({
+	imdb: z.string().nullable(),
+	tvdb: z.string().nullable(),
+	wikidata: z.string().nullable(),
+	facebook: z.string().nullable(),
+	instagram: z.string().nullable(),
+	twitter: z.string().nullable(),
+	tiktok: z.string().nullable(),
+	youtube: z.string().nullable(),
+});
+
+export type TmdbExternalIds = z.infer<typeof tmdbExternalIdsResultSchema>;
+
+/**
+ * A movie, TV show, episode or person on TMDB.
+ */
+export type TmdbEntity =
+	| { type: "movie" | "tv" | "person"; id: number }
+	| {
+			type: "episode";
+			tvId: number;
+			seasonNumber: number;
+			episodeNumber: number;
+	  };
+
+/**
+ * Normalized match of an external ID returned by TmdbService.findByExternalId:
+ * a movie or TV show, an episode or a person, told apart by `type`, with every
+ * external ID TMDB has for it.
+ */
+export const tmdbFindResultSchema = z.union([
+	tmdbItemSchema.extend({ externalIds: tmdbExternalIdsResultSchema }),
+	tmdbEpisodeResultSchema.extend({
+		type: z.literal("episode"),
+		tvId: z.number().describe("TMDB ID of the TV show"),
+		externalIds: tmdbExternalIdsResultSchema,
+	}),
+	tmdbPersonResultSchema.extend({
+		type: z.literal("person"),
+		externalIds: tmdbExternalIdsResultSchema,
+	}),
+]);
+
+export type TmdbFindResult = z.infer<typeof tmdbFindResultSchema>;
+
+/**
+ * Normalized movie collection returned by TmdbService.
+ */
+export const tmdbCollectionSchema = z.object({
+	id: z.number().describe("TMDB collection ID"),
+	name: z.string(),
+	overview: z.string(),
+	posterUrl: z.string(),
+	backdropUrl: z.string(),
+	parts: z
+		.array(
+			z.object({
+				id: z.number().describe("TMDB movie ID"),
+				title: z.string(),
+				releaseDate: z.string(),
+				posterUrl: z.string(),
+				description: z.string(),
+				rating: z.number(),
+			}),
+		)
+		.describe("Movies in the collection; empty in search results"),
+});
+
+export type TmdbCollection = z.infer<typeof tmdbCollectionSchema>;
+
+/**
+ * Normalized streaming service or store returned by TmdbService.
+ */
+export const tmdbWatchProviderSchema = z.object({
+	id: z.number().describe("TMDB watch provider ID"),
+	name: z.string(),
+	logoUrl: z.string().describe("Logo image URL, empty if none"),
+});
+
+export type TmdbWatchProvider = z.infer<typeof tmdbWatchProviderSchema>;
+
+/**
+ * Ways to watch a movie or TV show in one country.
+ */
+export const tmdbRegionWatchOptionsSchema = z.object({
+	region: z.string().describe("Country code (ISO 3166-1)"),
+	link: z
+		.string()
+		.describe("TMDB watch page, with JustWatch deep links to each provider"),
+	stream: z.array(tmdbWatchProviderSchema).describe("Subscription streaming"),
+	free: z.array(tmdbWatchProviderSchema),
+	ads: z.array(tmdbWatchProviderSchema).describe("Free with ads"),
+	rent: z.array(tmdbWatchProviderSchema),
+	buy: z.array(tmdbWatchProviderSchema),
+});
+
+export type TmdbRegionWatchOptions = z.infer<
+	typeof tmdbRegionWatchOptionsSchema
+>;
+
+/**
+ * How TMDB offers a title on a watch provider.
+ */
+export const tmdbMonetizationTypes = [
+	"flatrate",
+	"free",
+	"ads",
+	"rent",
+	"buy",
+] as const;
+
+export type TmdbMonetizationType = (typeof tmdbMonetizationTypes)[number];
+
+/**
+ * TMDB release types, by the number TMDB identifies them with.
+ */
+const releaseTypes = {
+	1: "premiere",
+	2: "theatrical_limited",
+	3: "theatrical",
+	4: "digital",
+	5: "physical",
+	6: "tv",
+} as const;
+
+export type TmdbReleaseType = (typeof releaseTypes)[keyof typeof releaseTypes];
+
+/**
+ * Release of a movie in one country.
+ */
+export interface TmdbRegionalRelease {
+	type: TmdbReleaseType;
+	/** YYYY-MM-DD */
+	date: string;
+	certification: string | null;
+	note: string | null;
+}
+
+/**
+ * Lists of current and upcoming titles; the first two are movie lists, the
+ * last two TV lists.
+ */
+export const tmdbReleaseLists = [
+	"upcoming",
+	"now_playing",
+	"airing_today",
+	"on_the_air",
+] as const;
+
+export type TmdbReleaseList = (typeof tmdbReleaseLists)[number];
+
+/**
+ * Which releases of a movie count for the calendar. Episodes of TV shows
+ * always do.
+ */
+export type TmdbCalendarReleaseType =
+	| "theatrical"
+	| "digital"
+	| "physical"
+	| "any";
+
+/**
+ * Normalized release calendar returned by TmdbService.getReleaseCalendar.
+ */
+export const tmdbReleaseCalendarSchema = z.object({
+	list: z.enum(tmdbReleaseLists),
+	region: z.string().describe("Country code the release dates are for"),
+	from: z.string().describe("First day of the window (YYYY-MM-DD)"),
+	to: z.string().describe("Last day of the window (YYYY-MM-DD)"),
+	days: z.array(
+		z.object({
+			date: z.string().describe("YYYY-MM-DD"),
+			releases: z.array(
+				tmdbItemSchema.extend({
+					releaseType: z
+						.enum([...Object.values(releaseTypes), "episode"])
+						.describe("Kind of release on this date"),
+					episode: tmdbEpisodeResultSchema
+						.nullable()
+						.describe("For TV shows, the episode airing on this date"),
+				}),
+			),
+		}),
+	),
+});
+
+export type TmdbReleaseCalendar = z.infer<typeof tmdbReleaseCalendarSchema>;
+
+/** Number of cast members included in a full movie record. */
+const topBilledCast = 10;
+
+/**
+ * Builds watch URLs for the video sites TMDB links trailers from.
+ */
+const videoUrls: Record<string, (key: string) => string> = {
+	YouTube: (key) => `https://www.youtube.com/watch?v=${key}`,
+	Vimeo: (key) => `https://vimeo.com/${key}`,
+};
+
+/** Pages of a release list read to build a calendar (20 titles each). */
+const calendarPages = 2;
+
+/**
+ * Service class for interacting with TMDB API.
+ * Supports fetching both movies and TV shows.
+ */
+export class TmdbService {
+	private readonly apiKey: string;
+	private readonly accessToken: string;
+	private readonly baseUrl: string;
+	private readonly language: string;
+
+	constructor() {
+		this.apiKey = config.tmdbApi.apiKey;
+		this.accessToken = config.tmdbApi.accessToken;
+		this.baseUrl = config.tmdbApi.baseUrl;
+		this.language = config.tmdbApi.language;
+	}
+
+	private validateApiKey() {
+		if (!this.accessToken && !this.apiKey) {
+			throw new MissingApiKeyError("TMDB", "TMDB_ACCESS_TOKEN or TMDB_API_KEY");
+		}
+	}
+
+	/**
+	 * Builds a TMDB API URL. The v3 API key is only added to the query string
+	 * when no v4 read access token is configured.
+	 */
+	private createUrl(path: string): URL {
+		const url = new URL(`${this.baseUrl}${path}`);
+		if (!this.accessToken) url.searchParams.append("api_key", this.apiKey);
+		return url;
+	}
+
+	/**
+	 * Request options for fetchJson, authenticating with the v4 read access
+	 * token when one is configured.
+	 */
+	private requestInit(options: CallOptions): RequestInit {
+		return {
+			signal: options.signal,
+			headers: this.accessToken
+				? { Authorization: `Bearer ${this.accessToken}` }
+				: undefined,
+		};
+	}
+
+	/**
+	 * Builds a full image URL in the configured size, or "" when TMDB has no image.
+	 */
+	private imageUrl(
+		path: string | null | undefined,
+		kind: keyof typeof config.tmdbApi.imageSizes,
+	): string {
+		if (!path) return "";
+		return `${config.tmdbApi.imageBaseUrl}/${config.tmdbApi.imageSizes[kind]}${path}`;
+	}
+
+	/**
+	 * Checks that TMDB accepts the configured credentials, with a request
+	 * that bypasses the response cache.
+	 *
+	 * @throws MissingApiKeyError when none are configured, or the HttpError
+	 * the request failed with
+	 */
+	async checkCredentials(options: CallOptions = {}): Promise<void> {
+		this.validateApiKey();
+
+		const url = this.createUrl("/authentication");
+		await fetchJson(
+			url.toString(),
+			{ ...this.requestInit(options), cache: "no-store" },
+			tmdbAuthenticationSchema,
+		);
+	}
+
+	/**
+	 * Fetches movies by title.
+	 */
+	async getMovieByTitle(
+		title: string,
+		options: TmdbListOptions = {},
+	): Promise<TmdbItem[]> {
+		this.validateApiKey();
+
+		const url = this.createUrl(`/search/movie`);
+		url.searchParams.append("query", title);
+		url.searchParams.append("language", this.language);
+
+		const data = await fetchJson<TmdbListResponse>(
+			url.toString(),
+			this.requestInit(options),
+			tmdbListResponseSchema,
+		);
+
+		return this.finishList(
+			data.results.map((movie) => this.normalizeItem(movie, "movie")),
+			options,
+		);
+	}
+
+	/**
 	 * Fetches TV shows by title.
 	 */
-	async getTvShowByTitle(title: string): Promise<TmdbItem[]> {
-		if (!this.apiKey) {
-			throw new Error("TMDB API key is not configured");
-		}
+	async getTvShowByTitle(
+		title: string,
+		options: TmdbListOptions = {},
+	): Promise<TmdbItem[]> {
+		this.validateApiKey();
 
-		const url = new URL(`${this.baseUrl}/search/tv`);
-		url.searchParams.append("api_key", this.apiKey);
+		const url = this.createUrl(`/search/tv`);
 		url.searchParams.append("query", title);
-		url.searchParams.append("language", "en-US");
+		url.searchParams.append("language", this.language);
 
-		const data = await fetchJson<TmdbTvResponse>(
+		const data = await fetchJson<TmdbListResponse>(
 			url.toString(),
-			undefined,
-			tmdbTvSchema,
-			4,
-			1000,
-		);
-
-		const tvShowsWithImdbId = await Promise.all(
-			data.results.map(async (show) => {
-				const detailsUrl = new URL(`${this.baseUrl}/tv/${show.id}`);
-				detailsUrl.searchParams.append("api_key", this.apiKey);
-				detailsUrl.searchParams.append("append_to_response", "external_ids");
-
-				const tvDetails = await fetchJson<z.infer<typeof tmdbTvDetailsSchema>>(
-					detailsUrl.toString(),
-					undefined,
-					tmdbTvDetailsSchema,
-					4,
-					1000,
-				);
-
-				return { ...show, imdb_id: tvDetails.external_ids?.imdb_id };
-			}),
+			this.requestInit(options),
+			tmdbListResponseSchema,
 		);
 
-		const tvShowsWithWatchProviders = await Promise.all(
-			tvShowsWithImdbId.map(async (show) => ({
-				id: show.id,
-				imdbId: show.imdb_id ?? null,
-				title: show.name,
-				description: show.overview ?? "No description available.",
-				releaseDate: show.first_air_date ?? "Unknown",
-				rating: show.vote_average ?? 0,
-				posterUrl: show.poster_path
-					? `https://image.tmdb.org/t/p/w500${show.poster_path}`
-					: "",
-				language: show.original_language ?? "Unknown",
-				type: "tv" as const,
-				watchProviders: await this.getWatchProviders("tv", show.id),
-			})),
+		return this.finishList(
+			data.results.map((show) => this.normalizeItem(show, "tv")),
+			options,
 		);
-		return tvShowsWithWatchProviders;
 	}
 
 	/**
-	 * Fetches trending movies or TV shows.
+	 * Fetches trending movies or TV shows. People are left out.
 	 */
 	async getTrending(
 		mediaType: "all" | "movie" | "tv" | "person",
 		timeWindow: "day" | "week",
+		options: TmdbListOptions = {},
 	): Promise<TmdbItem[]> {
-		if (!this.apiKey) {
-			throw new Error("TMDB API key is not configured");
-		}
+		this.validateApiKey();
 
-		const url = new URL(`${this.baseUrl}/trending/${mediaType}/${timeWindow}`);
-		url.searchParams.append("api_key", this.apiKey);
+		const url = this.createUrl(`/trending/${mediaType}/${timeWindow}`);
 
-		const data = await fetchJson<TmdbTrendingResponse>(
+		const data = await fetchJson<TmdbListResponse>(
 			url.toString(),
-			undefined,
-			tmdbTrendingResponseSchema,
-			4,
-			1000,
-		);
-
-		const trendingItemsWithImdbId = await Promise.all(
-			data.results.map(async (item) => {
-				if (item.media_type === "movie") {
-					const detailsUrl = new URL(`${this.baseUrl}/movie/${item.id}`);
-					detailsUrl.searchParams.append("api_key", this.apiKey);
-					const movieDetails = await fetchJson<
-						z.infer<typeof tmdbMovieDetailsSchema>
-					>(detailsUrl.toString(), undefined, tmdbMovieDetailsSchema, 4, 1000);
-					return { ...item, imdb_id: movieDetails.imdb_id };
-				} else if (item.media_type === "tv") {
-					const detailsUrl = new URL(`${this.baseUrl}/tv/${item.id}`);
-					detailsUrl.searchParams.append("api_key", this.apiKey);
-					detailsUrl.searchParams.append("append_to_response", "external_ids");
-					const tvDetails = await fetchJson<
-						z.infer<typeof tmdbTvDetailsSchema>
-					>(detailsUrl.toString(), undefined, tmdbTvDetailsSchema, 4, 1000);
-					return { ...item, imdb_id: tvDetails.external_ids?.imdb_id };
-				}
-				return { ...item, imdb_id: undefined }; // For 'person' or other unsupported media_types
-			}),
+			this.requestInit(options),
+			tmdbListResponseSchema,
 		);
 
-		const trendingItemsWithWatchProviders = await Promise.all(
-			trendingItemsWithImdbId.map(async (item) => ({
-				id: item.id,
-				imdbId: item.imdb_id ?? null,
-				title: item.title ?? item.name ?? "Unknown",
-				description: item.overview ?? "No description available.",
-				releaseDate: item.release_date ?? item.first_air_date ?? "Unknown",
-				rating: item.vote_average ?? 0,
-				posterUrl: item.poster_path
-					? `https://image.tmdb.org/t/p/w500${item.poster_path}`
-					: "",
-				language: item.original_language ?? "Unknown",
-				type: (item.media_type === "movie" ? "movie" : "tv") as "movie" | "tv",
-				watchProviders: await this.getWatchProviders(
-					item.media_type === "movie" ? "movie" : "tv",
-					item.id,
+		return this.finishList(
+			data.results
+				.filter(
+					(item) => item.media_type === "movie" || item.media_type === "tv",
+				)
+				.map((item) =>
+					this.normalizeItem(item, item.media_type as "movie" | "tv"),
 				),
-			})),
+			options,
 		);
-		return trendingItemsWithWatchProviders;
 	}
 
 	/**
 	 * Fetches popular movies or TV shows.
 	 */
-	async getPopular(mediaType: "movie" | "tv"): Promise<TmdbItem[]> {
-		if (!this.apiKey) {
-			throw new Error("TMDB API key is not configured");
+	async getPopular(
+		mediaType: "movie" | "tv",
+		options: TmdbListOptions = {},
+	): Promise<TmdbItem[]> {
+		this.validateApiKey();
+
+		const url = this.createUrl(`/${mediaType}/popular`);
+
+		const data = await fetchJson<TmdbListResponse>(
+			url.toString(),
+			this.requestInit(options),
+			tmdbListResponseSchema,
+		);
+
+		return this.finishList(
+			data.results.map((item) => this.normalizeItem(item, mediaType)),
+			options,
+		);
+	}
+
+	/**
+	 * Fetches a list of movie or TV show genres.
+	 */
+	async getGenres(
+		mediaType: "movie" | "tv",
+		options: CallOptions = {},
+	): Promise<z.infer<typeof tmdbGenreSchema>[]> {
+		this.validateApiKey();
+
+		const url = this.createUrl(`/genre/${mediaType}/list`);
+
+		const data = await fetchJson<TmdbGenreListResponse>(
+			url.toString(),
+			this.requestInit(options),
+			tmdbGenreListResponseSchema,
+		);
+
+		return data.genres;
+	}
+
+	/**
+	 * Searches for people (actors) by name.
+	 */
+	async searchPerson(
+		query: string,
+		options: CallOptions = {},
+	): Promise<TmdbPerson[]> {
+		this.validateApiKey();
+
+		const url = this.createUrl(`/search/person`);
+		url.searchParams.append("query", query);
+		url.searchParams.append("language", this.language);
+
+		const data = await fetchJson<TmdbPersonSearchResponse>(
+			url.toString(),
+			this.requestInit(options),
+			tmdbPersonSearchResponseSchema,
+		);
+
+		return data.results.map((person) => this.normalizePerson(person));
+	}
+
+	/**
+	 * Searches movies, TV shows and people at once, in one list ranked by
+	 * TMDB's relevance. Results matching the `type` and `year` hints are
+	 * moved ahead of the rest, and `limit` and `enrich` apply to the movies
+	 * and TV shows of the page after ranking.
+	 */
+	async searchMulti(
+		query: string,
+		hints: TmdbMultiSearchQuery = {},
+		options: TmdbListOptions = {},
+	): Promise<TmdbMultiSearch> {
+		this.validateApiKey();
+
+		const url = this.createUrl(`/search/multi`);
+		url.searchParams.append("query", query);
+		url.searchParams.append("language", this.language);
+		url.searchParams.append("page", String(hints.page ?? 1));
+		url.searchParams.append("include_adult", String(!!hints.includeAdult));
+
+		const data = await fetchJson<TmdbMultiSearchResponse>(
+			url.toString(),
+			this.requestInit(options),
+			tmdbMultiSearchResponseSchema,
+		);
+
+		const results: TmdbSearchResult[] = data.results.map((result) =>
+			result.media_type === "person"
+				? { ...this.normalizePerson(result), type: "person" }
+				: this.normalizeItem(result, result.media_type),
+		);
+		const matches = (result: TmdbSearchResult) =>
+			Number(result.type === hints.type) +
+			Number(
+				hints.year !== undefined &&
+					result.type !== "person" &&
+					result.releaseDate?.startsWith(String(hints.year)),
+			);
+		// Stable, so TMDB's order is kept among equal matches
+		const ranked = results
+			.map((result) => ({ result, matches: matches(result) }))
+			.sort((a, b) => b.matches - a.matches)
+			.map(({ result }) => result)
+			.slice(0, options.limit);
+
+		const items = await this.enrich(
+			ranked.flatMap((result) => (result.type === "person" ? [] : [result])),
+			options.enrich ?? [],
+			options,
+		);
+		const enriched = new Map(
+			items.map((item) => [`${item.type}:${item.id}`, item]),
+		);
+
+		return {
+			results: ranked.map(
+				(result) => enriched.get(`${result.type}:${result.id}`) ?? result,
+			),
+			page: data.page,
+			totalPages: data.total_pages,
+			totalResults: data.total_results,
+		};
+	}
+
+	/**
+	 * Finds the movie, TV show, episode or person an IMDb, TVDB, Wikidata or
+	 * social media ID belongs to, with every external ID TMDB has for it.
+	 * When an ID matches several, movies win over TV shows, episodes and
+	 * people, in that order.
+	 */
+	async findByExternalId(
+		source: TmdbExternalSource,
+		externalId: string,
+		options: CallOptions = {},
+	): Promise<TmdbFindResult | null> {
+		this.validateApiKey();
+
+		const url = this.createUrl(`/find/${encodeURIComponent(externalId)}`);
+		url.searchParams.append("external_source", `${source}_id`);
+		url.searchParams.append("language", this.language);
+
+		const data = await fetchJson<TmdbFindResponse>(
+			url.toString(),
+			this.requestInit(options),
+			tmdbFindResponseSchema,
+		);
+
+		const [movie] = data.movie_results;
+		const [show] = data.tv_results;
+		const [episode] = data.tv_episode_results;
+		const [person] = data.person_results;
+
+		// The find results lack the external IDs, so the match is fetched
+		// again by its TMDB ID
+		if (movie)
+			return this.getWithExternalIds({ type: "movie", id: movie.id }, options);
+		if (show)
+			return this.getWithExternalIds({ type: "tv", id: show.id }, options);
+		if (episode) {
+			return this.getWithExternalIds(
+				{
+					type: "episode",
+					tvId: episode.show_id,
+					seasonNumber: episode.season_number,
+					episodeNumber: episode.episode_number,
+				},
+				options,
+			);
 		}
+		if (person)
+			return this.getWithExternalIds(
+				{ type: "person", id: person.id },
+				options,
+			);
+		return null;
+	}
 
-		const url = new URL(`${this.baseUrl}/${mediaType}/popular`);
-		url.searchParams.append("api_key", this.apiKey);
+	/**
+	 * Fetches a movie, TV show, episode or person by its TMDB ID, with its
+	 * IMDb, TVDB, Wikidata and social media IDs appended to the same request.
+	 */
+	async getWithExternalIds(
+		entity: TmdbEntity,
+		options: CallOptions = {},
+	): Promise<TmdbFindResult | null> {
+		this.validateApiKey();
+
+		const url = this.createUrl(
+			entity.type === "episode"
+				? `/tv/${entity.tvId}/season/${entity.seasonNumber}/episode/${entity.episodeNumber}`
+				: `/${entity.type}/${entity.id}`,
+		);
+		url.searchParams.append("language", this.language);
+		url.searchParams.append("append_to_response", "external_ids");
+		const init = this.requestInit(options);
+
+		try {
+			switch (entity.type) {
+				case "episode": {
+					const episode = await fetchJson<TmdbEpisodeExternalIdsResponse>(
+						url.toString(),
+						init,
+						tmdbEpisodeExternalIdsSchema,
+					);
+					return {
+						...this.normalizeEpisode(episode),
+						type: "episode",
+						tvId: entity.tvId,
+						externalIds: this.normalizeExternalIds(episode.external_ids),
+					};
+				}
+				case "person": {
+					const person = await fetchJson<TmdbPersonExternalIdsResponse>(
+						url.toString(),
+						init,
+						tmdbPersonExternalIdsSchema,
+					);
+					return {
+						...this.normalizePerson(person),
+						type: "person",
+						externalIds: this.normalizeExternalIds(person.external_ids),
+					};
+				}
+				default: {
+					const item = await fetchJson<TmdbItemExternalIdsResponse>(
+						url.toString(),
+						init,
+						tmdbItemExternalIdsSchema,
+					);
+					return {
+						...this.normalizeItem(item, entity.type),
+						externalIds: this.normalizeExternalIds(item.external_ids),
+					};
+				}
+			}
+		} catch (error) {
+			if (error instanceof NotFoundError) return null;
+			throw error;
+		}
+	}
 
-		let data: TmdbPopularMovieResponse | TmdbPopularTvResponse;
+	/**
+	 * Discovers movies or TV shows by an actor's ID, most popular first.
+	 *
+	 * TMDB ignores `with_cast` on TV discover, so TV shows are taken from the
+	 * actor's combined credits instead, which also covers guest spots.
+	 */
+	async discoverByActor(
+		actorId: number,
+		mediaType: "movie" | "tv",
+		releaseYear?: number,
+		options: TmdbListOptions = {},
+	): Promise<TmdbItem[]> {
 		if (mediaType === "movie") {
-			data = await fetchJson<TmdbPopularMovieResponse>(
-				url.toString(),
-				undefined,
-				tmdbPopularMovieSchema,
-				4,
-				1000,
+			return this.discover(
+				"movie",
+				{ cast: [actorId], year: releaseYear },
+				options,
 			);
-		} else {
-			data = await fetchJson<TmdbPopularTvResponse>(
+		}
+
+		this.validateApiKey();
+
+		const url = this.createUrl(`/person/${actorId}`);
+		url.searchParams.append("language", this.language);
+		url.searchParams.append("append_to_response", "combined_credits");
+
+		let person: TmdbPersonCreditsResponse;
+		try {
+			person = await fetchJson<TmdbPersonCreditsResponse>(
 				url.toString(),
-				undefined,
-				tmdbPopularTvSchema,
-				4,
-				1000,
+				this.requestInit(options),
+				tmdbPersonCreditsSchema,
 			);
+		} catch (error) {
+			if (error instanceof NotFoundError) return [];
+			throw error;
 		}
 
-		const popularItemsWithImdbId = await Promise.all(
-			data.results.map(async (item) => {
-				if (mediaType === "movie") {
-					const detailsUrl = new URL(`${this.baseUrl}/movie/${item.id}`);
-					detailsUrl.searchParams.append("api_key", this.apiKey);
-					const movieDetails = await fetchJson<
-						z.infer<typeof tmdbMovieDetailsSchema>
-					>(detailsUrl.toString(), undefined, tmdbMovieDetailsSchema, 4, 1000);
-					return { ...item, imdb_id: movieDetails.imdb_id };
-				} else {
-					const detailsUrl = new URL(`${this.baseUrl}/tv/${item.id}`);
-					detailsUrl.searchParams.append("api_key", this.apiKey);
-					detailsUrl.searchParams.append("append_to_response", "external_ids");
-					const tvDetails = await fetchJson<
-						z.infer<typeof tmdbTvDetailsSchema>
-					>(detailsUrl.toString(), undefined, tmdbTvDetailsSchema, 4, 1000);
-					return { ...item, imdb_id: tvDetails.external_ids?.imdb_id };
-				}
-			}),
+		// One entry per show, even when they played several characters
+		const shows = [
+			...new Map(
+				person.combined_credits.cast
+					.filter(
+						(credit) =>
+							credit.media_type === "tv" &&
+							(!releaseYear ||
+								credit.first_air_date?.startsWith(String(releaseYear))),
+					)
+					.map((credit) => [credit.id, credit]),
+			).values(),
+		].sort((a, b) => (b.popularity ?? 0) - (a.popularity ?? 0));
+
+		return this.finishList(
+			shows.map((show) => this.normalizeItem(show, "tv")),
+			options,
 		);
+	}
 
-		const popularItemsWithWatchProviders = await Promise.all(
-			popularItemsWithImdbId.map(async (item) => ({
-				id: item.id,
-				imdbId: item.imdb_id ?? null,
-				title:
-					(mediaType === "movie"
-						? (item as TmdbPopularMovieResponse["results"][number]).title
-						: (item as TmdbPopularTvResponse["results"][number]).name) ??
-					"Unknown",
-				description: item.overview ?? "No description available.",
-				releaseDate:
-					(mediaType === "movie"
-						? (item as TmdbPopularMovieResponse["results"][number]).release_date
-						: (item as TmdbPopularTvResponse["results"][number])
-								.first_air_date) ?? "Unknown",
-				rating: item.vote_average ?? 0,
-				posterUrl: item.poster_path
-					? `https://image.tmdb.org/t/p/w500${item.poster_path}`
-					: "",
-				language: item.original_language ?? "Unknown",
-				type: mediaType,
-				watchProviders: await this.getWatchProviders(mediaType, item.id),
-			})),
+	/**
+	 * Discovers movies or TV shows matching any combination of TMDB's discover
+	 * filters. Filters TMDB does not support for `mediaType` are ignored by
+	 * TMDB, so callers should check them against discoverSupport first.
+	 */
+	async discover(
+		mediaType: "movie" | "tv",
+		filters: TmdbDiscoverFilters,
+		options: TmdbListOptions = {},
+	): Promise<TmdbItem[]> {
+		this.validateApiKey();
+
+		const url = this.createUrl(`/discover/${mediaType}`);
+		url.searchParams.append("language", this.language);
+
+		const params: Record<string, string | number | undefined> = {
+			with_genres: filters.genres?.join(
+				filters.genreMatch === "any" ? "|" : ",",
+			),
+			without_genres: filters.withoutGenres?.join(","),
+			"vote_average.gte": filters.minRating,
+			"vote_average.lte": filters.maxRating,
+			"vote_count.gte": filters.minVotes,
+			"vote_count.lte": filters.maxVotes,
+			"with_runtime.gte": filters.minRuntime,
+			"with_runtime.lte": filters.maxRuntime,
+			with_original_language: filters.originalLanguage,
+			with_keywords: filters.keywords?.join("|"),
+			with_companies: filters.companies?.join("|"),
+			with_networks: filters.networks?.join("|"),
+			with_cast: filters.cast?.join(","),
+			with_crew: filters.crew?.join(","),
+			sort_by: `${discoverSortFields[filters.sortBy ?? "popularity"][mediaType] ?? "popularity"}.${filters.sortOrder ?? "desc"}`,
+			page: filters.page,
+		};
+		if (mediaType === "movie") {
+			params.primary_release_year = filters.year;
+			params["primary_release_date.gte"] = filters.releasedFrom;
+			params["primary_release_date.lte"] = filters.releasedTo;
+		} else {
+			params.first_air_date_year = filters.year;
+			params["first_air_date.gte"] = filters.releasedFrom;
+			params["first_air_date.lte"] = filters.releasedTo;
+		}
+		if (filters.certification) {
+			params.certification = filters.certification;
+			params.certification_country =
+				filters.certificationCountry ?? config.tmdbApi.watchRegion;
+		}
+		if (filters.watchProviders?.length) {
+			params.with_watch_providers = filters.watchProviders.join("|");
+			params.watch_region = filters.watchRegion ?? config.tmdbApi.watchRegion;
+			params.with_watch_monetization_types =
+				filters.watchMonetizationTypes?.join("|");
+		}
+
+		for (const [name, value] of Object.entries(params)) {
+			if (value !== undefined && value !== "") {
+				url.searchParams.append(name, value.toString());
+			}
+		}
+
+		const data = await fetchJson<TmdbListResponse>(
+			url.toString(),
+			this.requestInit(options),
+			tmdbListResponseSchema,
+		);
+
+		return this.finishList(
+			data.results.map((item) => this.normalizeItem(item, mediaType)),
+			options,
 		);
-		return popularItemsWithWatchProviders;
 	}
 
 	/**
-	 * Fetches a list of movie or TV show genres.
+	 * Fetches TMDB's recommendations for a movie or TV show, based on what
+	 * users who liked it also liked.
+	 */
+	async getRecommendations(
+		mediaType: "movie" | "tv",
+		id: number,
+		options: TmdbListOptions = {},
+	): Promise<TmdbItem[]> {
+		return this.getRelated(mediaType, id, "recommendations", options);
+	}
+
+	/**
+	 * Fetches movies or TV shows similar to one, based on shared genres and
+	 * keywords.
 	 */
-	async getGenres(
+	async getSimilar(
 		mediaType: "movie" | "tv",
-	): Promise<z.infer<typeof tmdbGenreSchema>[]> {
-		if (!this.apiKey) {
-			throw new Error("TMDB API key is not configured");
-		}
+		id: number,
+		options: TmdbListOptions = {},
+	): Promise<TmdbItem[]> {
+		return this.getRelated(mediaType, id, "similar", options);
+	}
 
-		const url = new URL(`${this.baseUrl}/genre/${mediaType}/list`);
-		url.searchParams.append("api_key", this.apiKey);
+	/**
+	 * Fetches a page of upcoming or now playing movies in `region`, or of TV
+	 * shows airing today or in the next seven days.
+	 */
+	async getReleaseList(
+		list: TmdbReleaseList,
+		region?: string,
+		page = 1,
+		options: TmdbListOptions = {},
+	): Promise<{ items: TmdbItem[]; totalPages: number }> {
+		this.validateApiKey();
+
+		const mediaType =
+			list === "upcoming" || list === "now_playing" ? "movie" : "tv";
+		const url = this.createUrl(`/${mediaType}/${list}`);
+		url.searchParams.append("language", this.language);
+		url.searchParams.append("page", page.toString());
+		if (region && mediaType === "movie") {
+			url.searchParams.append("region", region);
+		}
 
-		const data = await fetchJson<TmdbGenreListResponse>(
+		const data = await fetchJson<TmdbListResponse>(
 			url.toString(),
-			undefined,
-			tmdbGenreListResponseSchema,
-			4,
-			1000,
+			this.requestInit(options),
+			tmdbListResponseSchema,
 		);
 
-		return data.genres;
+		return {
+			items: await this.finishList(
+				data.results.map((item) => this.normalizeItem(item, mediaType)),
+				options,
+			),
+			totalPages: data.total_pages,
+		};
 	}
 
 	/**
-	 * Searches for people (actors) by name.
+	 * Fetches the releases of a movie in one country, in date order.
 	 */
-	async searchPerson(query: string): Promise<TmdbPerson[]> {
-		if (!this.apiKey) {
-			throw new Error("TMDB API key is not configured");
-		}
+	async getReleaseDates(
+		movieId: number,
+		region: string,
+		options: CallOptions = {},
+	): Promise<TmdbRegionalRelease[]> {
+		this.validateApiKey();
 
-		const url = new URL(`${this.baseUrl}/search/person`);
-		url.searchParams.append("api_key", this.apiKey);
-		url.searchParams.append("query", query);
-		url.searchParams.append("language", "en-US");
+		const url = this.createUrl(`/movie/${movieId}/release_dates`);
 
-		const data = await fetchJson<TmdbPersonSearchResponse>(
+		const data = await fetchJson<TmdbReleaseDatesResponse>(
 			url.toString(),
-			undefined,
-			tmdbPersonSearchResponseSchema,
-			4,
-			1000,
+			this.requestInit(options),
+			tmdbReleaseDatesSchema,
 		);
 
-		return data.results.map((person) => ({
-			id: person.id,
-			name: person.name,
-			popularity: person.popularity,
-			knownForDepartment: person.known_for_department ?? "Unknown",
-			profilePath: person.profile_path
-				? `https://image.tmdb.org/t/p/w500${person.profile_path}`
-				: "",
-			knownFor: person.known_for
-				? person.known_for
-						.map((item) => item.title ?? item.name)
-						.filter(Boolean)
-						.join(", ")
-				: "N/A",
-		}));
+		return (
+			data.results
+				.find((country) => country.iso_3166_1 === region)
+				?.release_dates.flatMap((release) => {
+					const type = releaseTypes[release.type as keyof typeof releaseTypes];
+					if (!type) return [];
+					return {
+						type,
+						date: release.release_date.slice(0, 10),
+						certification: release.certification || null,
+						note: release.note || null,
+					};
+				})
+				.sort((a, b) => a.date.localeCompare(b.date)) ?? []
+		);
 	}
 
 	/**
-	 * Discovers movies or TV shows by an actor's ID.
+	 * Builds a calendar of the titles in a release list, grouped by date and
+	 * limited to the `from`-`to` window. Movies are dated by their releases
+	 * of `releaseType` in `region`, not by TMDB's global release date, and
+	 * left out when they have none in the window. TV shows are dated by the
+	 * episode airing in the window.
 	 */
-	async discoverByActor(
-		actorId: number,
-		mediaType: "movie" | "tv",
-		releaseYear?: number,
-	): Promise<TmdbItem[]> {
-		if (!this.apiKey) {
-			throw new Error("TMDB API key is not configured");
+	async getReleaseCalendar(
+		list: TmdbReleaseList,
+		window: {
+			region: string;
+			from: string;
+			to: string;
+			releaseType?: TmdbCalendarReleaseType;
+		},
+		options: CallOptions = {},
+	): Promise<TmdbReleaseCalendar> {
+		const listOptions = { signal: options.signal };
+		const first = await this.getReleaseList(
+			list,
+			window.region,
+			1,
+			listOptions,
+		);
+		const rest = await Promise.all(
+			Array.from(
+				{ length: Math.min(first.totalPages, calendarPages) - 1 },
+				(_, i) => this.getReleaseList(list, window.region, i + 2, listOptions),
+			),
+		);
+		const pages = [first, ...rest];
+		const items = [
+			...new Map(
+				pages.flatMap((page) => page.items).map((item) => [item.id, item]),
+			).values(),
+		];
+
+		const inWindow = (date: string | null | undefined) =>
+			!!date && date >= window.from && date <= window.to;
+		const counted: Record<TmdbCalendarReleaseType, TmdbReleaseType[]> = {
+			theatrical: ["theatrical_limited", "theatrical"],
+			digital: ["digital"],
+			physical: ["physical"],
+			any: Object.values(releaseTypes),
+		};
+
+		const datesFetched = trackStage(
+			options,
+			items[0]?.type === "tv"
+				? "Fetching next episodes"
+				: "Fetching release dates",
+			items.length,
+		);
+		const entries = await Promise.all(
+			items.map(async (item) => {
+				try {
+					if (item.type === "movie") {
+						const releases = await this.getReleaseDates(
+							item.id,
+							window.region,
+							options,
+						);
+						const release = releases.find(
+							(release) =>
+								counted[window.releaseType ?? "theatrical"].includes(
+									release.type,
+								) && inWindow(release.date),
+						);
+						return release
+							? {
+									date: release.date,
+									item,
+									releaseType: release.type,
+									episode: null,
+								}
+							: null;
+					}
+
+					const show = await this.getTvShowDetails(item.id, options);
+					const episode = [show?.nextEpisodeToAir, show?.lastEpisodeToAir].find(
+						(episode) => inWindow(episode?.airDate),
+					);
+					return episode?.airDate
+						? {
+								date: episode.airDate,
+								item: {
+									...item,
+									imdbId: show?.imdbId,
+									watchProviders: show?.watchProviders,
+								},
+								releaseType: "episode" as const,
+								episode,
+							}
+						: null;
+				} catch (error) {
+					options.signal?.throwIfAborted();
+					logger.warning(
+						`Error fetching release dates for ${item.type} ID ${item.id}`,
+						{ error: describeError(error) },
+					);
+					return null;
+				} finally {
+					datesFetched();
+				}
+			}),
+		);
+
+		const days = new Map<string, TmdbReleaseCalendar["days"][number]>();
+		for (const entry of entries) {
+			if (!entry) continue;
+			const day = days.get(entry.date) ?? { date: entry.date, releases: [] };
+			day.releases.push({
+				...entry.item,
+				releaseType: entry.releaseType,
+				episode: entry.episode,
+			});
+			days.set(entry.date, day);
 		}
 
-		const url = new URL(`${this.baseUrl}/discover/${mediaType}`);
-		url.searchParams.append("api_key", this.apiKey);
-		url.searchParams.append("with_cast", actorId.toString());
-		url.searchParams.append("language", "en-US");
+		return {
+			list,
+			region: window.region,
+			from: window.from,
+			to: window.to,
+			days: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+		};
+	}
 
-		if (releaseYear) {
-			if (mediaType === "movie") {
-				url.searchParams.append("primary_release_year", releaseYear.toString());
-			} else {
-				url.searchParams.append("first_air_date_year", releaseYear.toString());
-			}
-		}
+	/**
+	 * Fetches a movie or TV show with the ways to watch it in each of
+	 * `regions`, or in every country TMDB knows of when none are given, in a
+	 * single details request. Countries without any option are left out.
+	 */
+	async getWatchProviders(
+		mediaType: "movie" | "tv",
+		id: number,
+		regions: string[] = [],
+		options: CallOptions = {},
+	): Promise<{ item: TmdbItem; regions: TmdbRegionWatchOptions[] } | null> {
+		this.validateApiKey();
 
-		let data: TmdbDiscoverMovieResponse | TmdbDiscoverTvResponse;
-		if (mediaType === "movie") {
-			data = await fetchJson<TmdbDiscoverMovieResponse>(
-				url.toString(),
-				undefined,
-				tmdbDiscoverMovieSchema,
-				4,
-				1000,
-			);
-		} else {
-			data = await fetchJson<TmdbDiscoverTvResponse>(
-				url.toString(),
-				undefined,
-				tmdbDiscoverTvSchema,
-				4,
-				1000,
+		let details: TmdbItemDetails;
+		try {
+			details = await this.fetchDetails(
+				mediaType,
+				id,
+				["watchProviders"],
+				options,
 			);
+		} catch (error) {
+			if (error instanceof NotFoundError) return null;
+			throw error;
 		}
 
-		const discoveredItemsWithImdbId = await Promise.all(
-			data.results.map(async (item) => {
-				if (mediaType === "movie") {
-					const detailsUrl = new URL(`${this.baseUrl}/movie/${item.id}`);
-					detailsUrl.searchParams.append("api_key", this.apiKey);
-					const movieDetails = await fetchJson<
-						z.infer<typeof tmdbMovieDetailsSchema>
-					>(detailsUrl.toString(), undefined, tmdbMovieDetailsSchema, 4, 1000);
-					return { ...item, imdb_id: movieDetails.imdb_id };
-				} else {
-					const detailsUrl = new URL(`${this.baseUrl}/tv/${item.id}`);
-					detailsUrl.searchParams.append("api_key", this.apiKey);
-					detailsUrl.searchParams.append("append_to_response", "external_ids");
-					const tvDetails = await fetchJson<
-						z.infer<typeof tmdbTvDetailsSchema>
-					>(detailsUrl.toString(), undefined, tmdbTvDetailsSchema, 4, 1000);
-					return { ...item, imdb_id: tvDetails.external_ids?.imdb_id };
-				}
-			}),
-		);
+		const normalize = (
+			providers: z.infer<typeof tmdbWatchProviderDetailsSchema>[] = [],
+		) =>
+			providers
+				.sort((a, b) => a.display_priority - b.display_priority)
+				.map((provider) => ({
+					id: provider.provider_id,
+					name: provider.provider_name,
+					logoUrl: this.imageUrl(provider.logo_path, "logo"),
+				}));
+
+		return {
+			item: {
+				...this.normalizeItem(details, mediaType),
+				...this.enrichment(details, mediaType, ["watchProviders"]),
+			},
+			regions: Object.entries(details["watch/providers"]?.results ?? {})
+				.filter(([region]) => !regions.length || regions.includes(region))
+				.map(([region, offers]) => ({
+					region,
+					link: offers.link,
+					stream: normalize(offers.flatrate),
+					free: normalize(offers.free),
+					ads: normalize(offers.ads),
+					rent: normalize(offers.rent),
+					buy: normalize(offers.buy),
+				})),
+		};
+	}
 
-		const discoveredItemsWithWatchProviders = await Promise.all(
-			discoveredItemsWithImdbId.map(async (item) => ({
-				id: item.id,
-				imdbId: item.imdb_id ?? null,
-				title:
-					(mediaType === "movie"
-						? (item as TmdbDiscoverMovieResponse["results"][number]).title
-						: (item as TmdbDiscoverTvResponse["results"][number]).name) ??
-					"Unknown",
-				description: item.overview ?? "No description available.",
-				releaseDate:
-					(mediaType === "movie"
-						? (item as TmdbDiscoverMovieResponse["results"][number])
-								.release_date
-						: (item as TmdbDiscoverTvResponse["results"][number])
-								.first_air_date) ?? "Unknown",
-				rating: item.vote_average ?? 0,
-				posterUrl: item.poster_path
-					? `https://image.tmdb.org/t/p/w500${item.poster_path}`
-					: "",
-				language: item.original_language ?? "Unknown",
-				type: mediaType,
-				watchProviders: await this.getWatchProviders(mediaType, item.id),
-			})),
+	/**
+	 * Fetches the watch providers TMDB has movies or TV shows for in
+	 * `region`, most prominent first.
+	 */
+	async getProviderList(
+		mediaType: "movie" | "tv",
+		region: string,
+		options: CallOptions = {},
+	): Promise<TmdbWatchProvider[]> {
+		this.validateApiKey();
+
+		const url = this.createUrl(`/watch/providers/${mediaType}`);
+		url.searchParams.append("language", this.language);
+		url.searchParams.append("watch_region", region);
+
+		const data = await fetchJson<TmdbProviderListResponse>(
+			url.toString(),
+			this.requestInit(options),
+			tmdbProviderListSchema,
 		);
-		return discoveredItemsWithWatchProviders;
+
+		const priority = (provider: TmdbProviderListResponse["results"][number]) =>
+			provider.display_priorities?.[region] ??
+			provider.display_priority ??
+			Number.MAX_SAFE_INTEGER;
+		return data.results
+			.sort((a, b) => priority(a) - priority(b))
+			.map((provider) => ({
+				id: provider.provider_id,
+				name: provider.provider_name,
+				logoUrl: this.imageUrl(provider.logo_path, "logo"),
+			}));
 	}
 
 	/**
 	 * Searches for movie collections by name.
 	 */
-	async searchCollections(query: string): Promise<TmdbCollection[]> {
-		if (!this.apiKey) {
-			throw new Error("TMDB API key is not configured");
-		}
+	async searchCollections(
+		query: string,
+		options: CallOptions = {},
+	): Promise<TmdbCollection[]> {
+		this.validateApiKey();
 
-		const url = new URL(`${this.baseUrl}/search/collection`);
-		url.searchParams.append("api_key", this.apiKey);
+		const url = this.createUrl(`/search/collection`);
 		url.searchParams.append("query", query);
-		url.searchParams.append("language", "en-US");
+		url.searchParams.append("language", this.language);
 
 		const data = await fetchJson<TmdbCollectionSearchResponse>(
 			url.toString(),
-			undefined,
+			this.requestInit(options),
 			tmdbCollectionSearchResponseSchema,
-			4,
-			1000,
 		);
 
 		return data.results.map((collection) => ({
 			id: collection.id,
 			name: collection.name,
 			overview: collection.overview ?? "No overview available.",
-			posterUrl: collection.poster_path
-				? `https://image.tmdb.org/t/p/w500${collection.poster_path}`
-				: "",
-			backdropUrl: collection.backdrop_path
-				? `https://image.tmdb.org/t/p/w500${collection.backdrop_path}`
-				: "",
+			posterUrl: this.imageUrl(collection.poster_path, "poster"),
+			backdropUrl: this.imageUrl(collection.backdrop_path, "backdrop"),
 			parts: [], // Collection search does not return parts
 		}));
 	}
@@ -802,51 +1992,38 @@ export class TmdbService {
 	 */
 	async getCollectionDetails(
 		collectionId: number,
+		options: CallOptions = {},
 	): Promise<TmdbCollection | null> {
-		if (!this.apiKey) {
-			throw new Error("TMDB API key is not configured");
-		}
+		this.validateApiKey();
 
-		const url = new URL(`${this.baseUrl}/collection/${collectionId}`);
-		url.searchParams.append("api_key", this.apiKey);
-		url.searchParams.append("language", "en-US");
+		const url = this.createUrl(`/collection/${collectionId}`);
+		url.searchParams.append("language", this.language);
 
 		try {
 			const data = await fetchJson<TmdbCollectionDetailsResponse>(
 				url.toString(),
-				undefined,
+				this.requestInit(options),
 				tmdbCollectionDetailsSchema,
-				4,
-				1000,
 			);
 
 			return {
 				id: data.id,
 				name: data.name,
 				overview: data.overview ?? "No overview available.",
-				posterUrl: data.poster_path
-					? `https://image.tmdb.org/t/p/w500${data.poster_path}`
-					: "",
-				backdropUrl: data.backdrop_path
-					? `https://image.tmdb.org/t/p/w500${data.backdrop_path}`
-					: "",
+				posterUrl: this.imageUrl(data.poster_path, "poster"),
+				backdropUrl: this.imageUrl(data.backdrop_path, "backdrop"),
 				parts: data.parts.map((movie) => ({
 					id: movie.id,
 					title: movie.title,
 					releaseDate: movie.release_date ?? "Unknown",
-					posterUrl: movie.poster_path
-						? `https://image.tmdb.org/t/p/w500${movie.poster_path}`
-						: "",
+					posterUrl: this.imageUrl(movie.poster_path, "poster"),
 					description: movie.overview ?? "No description available.",
 					rating: movie.vote_average ?? 0,
 				})),
 			};
 		} catch (error) {
-			console.error(
-				`Error fetching collection details for ID ${collectionId}:`,
-				error,
-			);
-			return null;
+			if (error instanceof NotFoundError) return null;
+			throw error;
 		}
 	}
 
@@ -856,117 +2033,640 @@ export class TmdbService {
 	async discoverByGenre(
 		mediaType: "movie" | "tv",
 		genreId: number,
-		releaseYear?: number, // Add this parameter
+		releaseYear?: number,
+		options: TmdbListOptions = {},
 	): Promise<TmdbItem[]> {
-		if (!this.apiKey) {
-			throw new Error("TMDB API key is not configured");
+		return this.discover(
+			mediaType,
+			{ genres: [genreId], year: releaseYear },
+			options,
+		);
+	}
+
+	/**
+	 * Fetches a single movie by its TMDB ID, with every enrichment field.
+	 */
+	async getMovie(
+		movieId: number,
+		options: CallOptions = {},
+	): Promise<TmdbItem | null> {
+		return this.getItem("movie", movieId, options);
+	}
+
+	/**
+	 * Fetches the full record of a movie: credits, trailers, keywords,
+	 * certifications and external IDs, appended to a single details request.
+	 */
+	async getMovieDetails(
+		movieId: number,
+		options: CallOptions = {},
+	): Promise<TmdbMovieDetails | null> {
+		this.validateApiKey();
+
+		const url = this.createUrl(`/movie/${movieId}`);
+		url.searchParams.append("language", this.language);
+		url.searchParams.append(
+			"append_to_response",
+			"credits,videos,keywords,release_dates,external_ids,watch/providers",
+		);
+
+		let movie: TmdbMovieDetailsResponse;
+		try {
+			movie = await fetchJson<TmdbMovieDetailsResponse>(
+				url.toString(),
+				this.requestInit(options),
+				tmdbMovieDetailsSchema,
+			);
+		} catch (error) {
+			if (error instanceof NotFoundError) return null;
+			throw error;
 		}
 
-		const url = new URL(`${this.baseUrl}/discover/${mediaType}`);
-		url.searchParams.append("api_key", this.apiKey);
-		url.searchParams.append("with_genres", genreId.toString());
-		url.searchParams.append("language", "en-US");
+		const certifications: Record<string, string> = {};
+		for (const country of movie.release_dates?.results ?? []) {
+			const certification = country.release_dates.find(
+				(release) => release.certification,
+			)?.certification;
+			if (certification) certifications[country.iso_3166_1] = certification;
+		}
 
-		if (releaseYear) {
-			if (mediaType === "movie") {
-				url.searchParams.append("primary_release_year", releaseYear.toString());
-			} else {
-				url.searchParams.append("first_air_date_year", releaseYear.toString());
-			}
+		return {
+			...this.normalizeItem(movie, "movie"),
+			...this.enrichment(movie, "movie", tmdbEnrichments),
+			tagline: movie.tagline ?? "",
+			genres: movie.genres.map((genre) => genre.name),
+			budget: movie.budget,
+			revenue: movie.revenue,
+			productionCompanies: movie.production_companies.map(
+				(company) => company.name,
+			),
+			cast: movie.credits.cast.slice(0, topBilledCast).map((member) => ({
+				id: member.id,
+				name: member.name,
+				character: member.character || "Unknown",
+			})),
+			crew: movie.credits.crew
+				.filter(
+					(member) =>
+						member.job === "Director" ||
+						member.department === "Writing" ||
+						member.job === "Original Music Composer",
+				)
+				.map((member) => ({
+					id: member.id,
+					name: member.name,
+					job: member.job,
+				})),
+			keywords: movie.keywords.keywords.map((keyword) => keyword.name),
+			trailers: movie.videos.results
+				.filter((video) => video.type === "Trailer" && videoUrls[video.site])
+				.map((video) => ({
+					name: video.name,
+					url: videoUrls[video.site](video.key),
+					official: video.official ?? false,
+				})),
+			certifications,
+			externalIds: {
+				imdb: movie.external_ids.imdb_id || null,
+				wikidata: movie.external_ids.wikidata_id || null,
+				facebook: movie.external_ids.facebook_id || null,
+				instagram: movie.external_ids.instagram_id || null,
+				twitter: movie.external_ids.twitter_id || null,
+			},
+		};
+	}
+
+	/**
+	 * Fetches a single TV show by its TMDB ID, with every enrichment field.
+	 */
+	async getTvShow(
+		tvId: number,
+		options: CallOptions = {},
+	): Promise<TmdbItem | null> {
+		return this.getItem("tv", tvId, options);
+	}
+
+	/**
+	 * Fetches the full record of a TV show: status, networks, creators,
+	 * season and episode counts, and the last and next episodes to air.
+	 */
+	async getTvShowDetails(
+		tvId: number,
+		options: CallOptions = {},
+	): Promise<TmdbTvDetails | null> {
+		this.validateApiKey();
+
+		const url = this.createUrl(`/tv/${tvId}`);
+		url.searchParams.append("language", this.language);
+		url.searchParams.append(
+			"append_to_response",
+			"external_ids,content_ratings,watch/providers",
+		);
+
+		let show: TmdbTvDetailsResponse;
+		try {
+			show = await fetchJson<TmdbTvDetailsResponse>(
+				url.toString(),
+				this.requestInit(options),
+				tmdbTvDetailsSchema,
+			);
+		} catch (error) {
+			if (error instanceof NotFoundError) return null;
+			throw error;
 		}
 
-		let data: TmdbDiscoverMovieResponse | TmdbDiscoverTvResponse;
-		if (mediaType === "movie") {
-			data = await fetchJson<TmdbDiscoverMovieResponse>(
+		return {
+			...this.normalizeItem(show, "tv"),
+			...this.enrichment(show, "tv", tmdbEnrichments),
+			// TMDB has stopped filling in episode_run_time for many shows
+			runtime:
+				show.episode_run_time?.[0] ?? show.last_episode_to_air?.runtime ?? null,
+			status: show.status ?? "Unknown",
+			genres: show.genres.map((genre) => genre.name),
+			networks: show.networks.map((network) => network.name),
+			creators: show.created_by.map((creator) => ({
+				id: creator.id,
+				name: creator.name,
+			})),
+			numberOfSeasons: show.number_of_seasons ?? 0,
+			numberOfEpisodes: show.number_of_episodes ?? 0,
+			lastEpisodeToAir: show.last_episode_to_air
+				? this.normalizeEpisode(show.last_episode_to_air)
+				: null,
+			nextEpisodeToAir: show.next_episode_to_air
+				? this.normalizeEpisode(show.next_episode_to_air)
+				: null,
+			seasons: show.seasons.map((season) => ({
+				seasonNumber: season.season_number,
+				name: season.name,
+				episodeCount: season.episode_count ?? 0,
+				airDate: season.air_date ?? null,
+			})),
+		};
+	}
+
+	/**
+	 * Fetches a season of a TV show with its episode list.
+	 */
+	async getSeasonDetails(
+		tvId: number,
+		seasonNumber: number,
+		options: CallOptions = {},
+	): Promise<TmdbSeason | null> {
+		this.validateApiKey();
+
+		const url = this.createUrl(`/tv/${tvId}/season/${seasonNumber}`);
+		url.searchParams.append("language", this.language);
+
+		try {
+			const season = await fetchJson<TmdbSeasonDetailsResponse>(
 				url.toString(),
-				undefined,
-				tmdbDiscoverMovieSchema,
-				4,
-				1000,
+				this.requestInit(options),
+				tmdbSeasonDetailsSchema,
 			);
-		} else {
-			data = await fetchJson<TmdbDiscoverTvResponse>(
+
+			return {
+				id: season.id,
+				tvId,
+				seasonNumber: season.season_number,
+				name: season.name,
+				overview: season.overview || "No overview available.",
+				airDate: season.air_date ?? null,
+				posterUrl: this.imageUrl(season.poster_path, "poster"),
+				episodes: season.episodes.map((episode) =>
+					this.normalizeEpisode(episode),
+				),
+			};
+		} catch (error) {
+			if (error instanceof NotFoundError) return null;
+			throw error;
+		}
+	}
+
+	/**
+	 * Fetches a single episode of a TV show with its guest stars and crew.
+	 */
+	async getEpisodeDetails(
+		tvId: number,
+		seasonNumber: number,
+		episodeNumber: number,
+		options: CallOptions = {},
+	): Promise<TmdbEpisodeDetails | null> {
+		this.validateApiKey();
+
+		const url = this.createUrl(
+			`/tv/${tvId}/season/${seasonNumber}/episode/${episodeNumber}`,
+		);
+		url.searchParams.append("language", this.language);
+
+		try {
+			const episode = await fetchJson<TmdbEpisodeDetailsResponse>(
+				url.toString(),
+				this.requestInit(options),
+				tmdbEpisodeDetailsSchema,
+			);
+
+			return {
+				...this.normalizeEpisode(episode),
+				tvId,
+				guestStars: episode.guest_stars.map((star) => ({
+					id: star.id,
+					name: star.name,
+					character: star.character || "Unknown",
+				})),
+				crew: episode.crew.map((member) => ({
+					id: member.id,
+					name: member.name,
+					job: member.job,
+				})),
+			};
+		} catch (error) {
+			if (error instanceof NotFoundError) return null;
+			throw error;
+		}
+	}
+
+	/**
+	 * Fetches a person's profile by their TMDB ID.
+	 */
+	async getPerson(
+		personId: number,
+		options: CallOptions = {},
+	): Promise<TmdbPersonProfile | null> {
+		this.validateApiKey();
+
+		const url = this.createUrl(`/person/${personId}`);
+		url.searchParams.append("language", this.language);
+
+		try {
+			const person = await fetchJson<TmdbPersonDetailsResponse>(
+				url.toString(),
+				this.requestInit(options),
+				tmdbPersonDetailsSchema,
+			);
+
+			return this.normalizeProfile(person);
+		} catch (error) {
+			if (error instanceof NotFoundError) return null;
+			throw error;
+		}
+	}
+
+	/**
+	 * Fetches a person's profile with their full movie and TV filmography,
+	 * cast and crew, from combined credits. `query` filters, sorts and pages
+	 * the credits; the profile is the same on every page.
+	 */
+	async getPersonDetails(
+		personId: number,
+		query: TmdbCreditQuery = {},
+		options: CallOptions = {},
+	): Promise<TmdbPersonDetails | null> {
+		this.validateApiKey();
+
+		const url = this.createUrl(`/person/${personId}`);
+		url.searchParams.append("language", this.language);
+		url.searchParams.append("append_to_response", "combined_credits");
+
+		let person: TmdbPersonCreditsResponse;
+		try {
+			person = await fetchJson<TmdbPersonCreditsResponse>(
 				url.toString(),
-				undefined,
-				tmdbDiscoverTvSchema,
-				4,
-				1000,
+				this.requestInit(options),
+				tmdbPersonCreditsSchema,
+			);
+		} catch (error) {
+			if (error instanceof NotFoundError) return null;
+			throw error;
+		}
+
+		const credits: TmdbCredit[] = [
+			...person.combined_credits.cast.map((credit) => ({
+				...this.normalizeCredit(credit),
+				department: "Acting",
+				role: credit.character || "Unknown",
+			})),
+			...person.combined_credits.crew.map((credit) => ({
+				...this.normalizeCredit(credit),
+				department: credit.department,
+				role: credit.job,
+			})),
+		];
+
+		const year = (credit: TmdbCredit) =>
+			credit.releaseDate ? Number(credit.releaseDate.slice(0, 4)) : null;
+		const matching = credits.filter((credit) => {
+			const released = year(credit);
+			return (
+				(!query.mediaType || credit.mediaType === query.mediaType) &&
+				(!query.department ||
+					credit.department.toLowerCase() === query.department.toLowerCase()) &&
+				(!query.fromYear ||
+					(released !== null && released >= query.fromYear)) &&
+				(!query.toYear || (released !== null && released <= query.toYear))
+			);
+		});
+
+		if (query.sortBy === "popularity") {
+			matching.sort((a, b) => b.popularity - a.popularity);
+		} else {
+			// Newest first; undated credits (usually announced projects) last
+			matching.sort((a, b) =>
+				(b.releaseDate ?? "").localeCompare(a.releaseDate ?? ""),
 			);
 		}
 
-		const discoveredItemsWithImdbId = await Promise.all(
-			data.results.map(async (item) => {
-				if (mediaType === "movie") {
-					const detailsUrl = new URL(`${this.baseUrl}/movie/${item.id}`);
-					detailsUrl.searchParams.append("api_key", this.apiKey);
-					const movieDetails = await fetchJson<
-						z.infer<typeof tmdbMovieDetailsSchema>
-					>(detailsUrl.toString(), undefined, tmdbMovieDetailsSchema, 4, 1000);
-					return { ...item, imdb_id: movieDetails.imdb_id };
-				} else {
-					const detailsUrl = new URL(`${this.baseUrl}/tv/${item.id}`);
-					detailsUrl.searchParams.append("api_key", this.apiKey);
-					detailsUrl.searchParams.append("append_to_response", "external_ids");
-					const tvDetails = await fetchJson<
-						z.infer<typeof tmdbTvDetailsSchema>
-					>(detailsUrl.toString(), undefined, tmdbTvDetailsSchema, 4, 1000);
-					return { ...item, imdb_id: tvDetails.external_ids?.imdb_id };
+		const pageSize = query.pageSize ?? 20;
+		const page = query.page ?? 1;
+		return {
+			...this.normalizeProfile(person),
+			credits: matching.slice((page - 1) * pageSize, page * pageSize),
+			page,
+			totalPages: Math.ceil(matching.length / pageSize),
+			totalCredits: matching.length,
+			departments: [
+				...new Set(credits.map((credit) => credit.department)),
+			].sort(),
+		};
+	}
+
+	/**
+	 * Fills in `fields` on each of `items`, with a single details request per
+	 * item that appends every sub-resource the fields need. An item whose
+	 * details cannot be fetched is returned as it is.
+	 */
+	async enrich(
+		items: TmdbItem[],
+		fields: readonly TmdbEnrichment[],
+		options: CallOptions = {},
+	): Promise<TmdbItem[]> {
+		if (!fields.length || !items.length) return items;
+
+		const detailsFetched = trackStage(
+			options,
+			"Fetching details",
+			items.length,
+		);
+		return Promise.all(
+			items.map(async (item) => {
+				try {
+					const details = await this.fetchDetails(
+						item.type,
+						item.id,
+						fields,
+						options,
+					);
+					return { ...item, ...this.enrichment(details, item.type, fields) };
+				} catch (error) {
+					options.signal?.throwIfAborted();
+					logger.warning(
+						`Error fetching details for ${item.type} ID ${item.id}`,
+						{ error: describeError(error) },
+					);
+					return item;
+				} finally {
+					detailsFetched();
 				}
 			}),
 		);
+	}
+
+	private async getItem(
+		type: "movie" | "tv",
+		id: number,
+		options: CallOptions,
+	): Promise<TmdbItem | null> {
+		this.validateApiKey();
+
+		try {
+			const details = await this.fetchDetails(
+				type,
+				id,
+				tmdbEnrichments,
+				options,
+			);
+			return {
+				...this.normalizeItem(details, type),
+				...this.enrichment(details, type, tmdbEnrichments),
+			};
+		} catch (error) {
+			if (error instanceof NotFoundError) return null;
+			throw error;
+		}
+	}
+
+	private async getRelated(
+		mediaType: "movie" | "tv",
+		id: number,
+		endpoint: "recommendations" | "similar",
+		options: TmdbListOptions,
+	): Promise<TmdbItem[]> {
+		this.validateApiKey();
+
+		const url = this.createUrl(`/${mediaType}/${id}/${endpoint}`);
+		url.searchParams.append("language", this.language);
+
+		const data = await fetchJson<TmdbListResponse>(
+			url.toString(),
+			this.requestInit(options),
+			tmdbListResponseSchema,
+		);
+
+		return this.finishList(
+			data.results.map((item) => this.normalizeItem(item, mediaType)),
+			options,
+		);
+	}
+
+	/**
+	 * Applies the `limit` and `enrich` list options to normalized results.
+	 */
+	private finishList(
+		items: TmdbItem[],
+		options: TmdbListOptions,
+	): Promise<TmdbItem[]> {
+		return this.enrich(
+			items.slice(0, options.limit),
+			options.enrich ?? [],
+			options,
+		);
+	}
 
-		return discoveredItemsWithImdbId.map((item) => ({
+	/**
+	 * Maps a movie or TV show from any list or details response.
+	 */
+	private normalizeItem(item: TmdbListItem, type: "movie" | "tv"): TmdbItem {
+		return {
 			id: item.id,
-			imdbId: item.imdb_id ?? null,
-			title:
-				mediaType === "movie"
-					? (item as TmdbDiscoverMovieResponse["results"][number]).title
-					: ((item as TmdbDiscoverTvResponse["results"][number]).name ??
-						"Unknown"),
+			title: item.title ?? item.name ?? "Unknown",
 			description: item.overview ?? "No description available.",
-			releaseDate:
-				mediaType === "movie"
-					? (item as TmdbDiscoverMovieResponse["results"][number]).release_date
-					: ((item as TmdbDiscoverTvResponse["results"][number])
-							.first_air_date ?? "Unknown"),
+			releaseDate: item.release_date ?? item.first_air_date ?? "Unknown",
 			rating: item.vote_average ?? 0,
-			posterUrl: item.poster_path
-				? `https://image.tmdb.org/t/p/w500${item.poster_path}`
-				: "",
+			posterUrl: this.imageUrl(item.poster_path, "poster"),
 			language: item.original_language ?? "Unknown",
-			type: mediaType,
-		}));
+			type,
+		};
 	}
 
 	/**
-	 * Fetches watch providers for a given movie or TV show.
+	 * Maps an external IDs response, TVDB's numeric IDs included, to strings.
 	 */
-	private async getWatchProviders(
-		mediaType: "movie" | "tv",
+	private normalizeExternalIds(ids: TmdbExternalIdsResponse): TmdbExternalIds {
+		return {
+			imdb: ids.imdb_id || null,
+			tvdb: ids.tvdb_id ? String(ids.tvdb_id) : null,
+			wikidata: ids.wikidata_id || null,
+			facebook: ids.facebook_id || null,
+			instagram: ids.instagram_id || null,
+			twitter: ids.twitter_id || null,
+			tiktok: ids.tiktok_id || null,
+			youtube: ids.youtube_id || null,
+		};
+	}
+
+	/**
+	 * Maps a person from a search response.
+	 */
+	private normalizePerson(
+		person: TmdbPersonSearchResponse["results"][number],
+	): TmdbPerson {
+		return {
+			id: person.id,
+			name: person.name,
+			popularity: person.popularity,
+			knownForDepartment: person.known_for_department ?? "Unknown",
+			profilePath: this.imageUrl(person.profile_path, "profile"),
+			knownFor: person.known_for
+				? person.known_for
+						.map((item) => item.title ?? item.name)
+						.filter(Boolean)
+						.join(", ")
+				: "N/A",
+		};
+	}
+
+	/**
+	 * Maps a person's profile from a person details response.
+	 */
+	private normalizeProfile(
+		person: TmdbPersonDetailsResponse,
+	): TmdbPersonProfile {
+		return {
+			id: person.id,
+			imdbId: person.imdb_id ?? null,
+			name: person.name,
+			biography: person.biography || "No biography available.",
+			birthday: person.birthday,
+			deathday: person.deathday,
+			placeOfBirth: person.place_of_birth,
+			popularity: person.popularity,
+			knownForDepartment: person.known_for_department ?? "Unknown",
+			profilePath: this.imageUrl(person.profile_path, "profile"),
+		};
+	}
+
+	/**
+	 * Maps the fields cast and crew credits share.
+	 */
+	private normalizeCredit(
+		credit: TmdbListItem & {
+			media_type: "movie" | "tv";
+			popularity?: number | null;
+			episode_count?: number | null;
+		},
+	): Omit<TmdbCredit, "department" | "role"> {
+		return {
+			id: credit.id,
+			mediaType: credit.media_type,
+			title: credit.title ?? credit.name ?? "Unknown",
+			releaseDate: credit.release_date || credit.first_air_date || null,
+			episodeCount: credit.episode_count ?? null,
+			rating: credit.vote_average ?? 0,
+			popularity: credit.popularity ?? 0,
+		};
+	}
+
+	/**
+	 * Maps a TV episode from a season, episode or show details response.
+	 */
+	private normalizeEpisode(episode: TmdbEpisodeResponse): TmdbEpisode {
+		return {
+			id: episode.id,
+			seasonNumber: episode.season_number,
+			episodeNumber: episode.episode_number,
+			name: episode.name,
+			overview: episode.overview || "No overview available.",
+			airDate: episode.air_date ?? null,
+			rating: episode.vote_average ?? 0,
+			runtime: episode.runtime ?? null,
+			stillUrl: this.imageUrl(episode.still_path, "backdrop"),
+		};
+	}
+
+	/**
+	 * Fetches the details of a movie or TV show, appending the sub-resources
+	 * `fields` are read from.
+	 */
+	private fetchDetails(
+		type: "movie" | "tv",
 		id: number,
-	): Promise<TmdbWatchProvidersResponse["results"] | undefined> {
-		if (!this.apiKey) {
-			throw new Error("TMDB API key is not configured");
+		fields: readonly TmdbEnrichment[],
+		options: CallOptions,
+	): Promise<TmdbItemDetails> {
+		const append: string[] = [];
+		if (fields.includes("imdbId") && type === "tv") append.push("external_ids");
+		if (fields.includes("watchProviders")) append.push("watch/providers");
+		if (fields.includes("certification")) {
+			append.push(type === "movie" ? "release_dates" : "content_ratings");
 		}
 
-		const url = new URL(`${this.baseUrl}/${mediaType}/${id}/watch/providers`);
-		url.searchParams.append("api_key", this.apiKey);
+		const url = this.createUrl(`/${type}/${id}`);
+		url.searchParams.append("language", this.language);
+		if (append.length) {
+			url.searchParams.append("append_to_response", append.join(","));
+		}
 
-		try {
-			const data = await fetchJson<TmdbWatchProvidersResponse>(
-				url.toString(),
-				undefined,
-				tmdbWatchProvidersResponseSchema,
-				4,
-				1000,
-			);
-			return data.results;
-		} catch (error) {
-			console.error(
-				`Error fetching watch providers for ${mediaType} ID ${id}:`,
-				error,
-			);
-			return undefined;
+		return fetchJson<TmdbItemDetails>(
+			url.toString(),
+			this.requestInit(options),
+			tmdbItemDetailsSchema,
+		);
+	}
+
+	/**
+	 * Reads the requested enrichment fields from a details response.
+	 */
+	private enrichment(
+		details: TmdbItemDetails,
+		type: "movie" | "tv",
+		fields: readonly TmdbEnrichment[],
+	): Partial<TmdbItem> {
+		const region = config.tmdbApi.watchRegion;
+		const result: Partial<TmdbItem> = {};
+
+		if (fields.includes("imdbId")) {
+			result.imdbId =
+				(type === "movie" ? details.imdb_id : details.external_ids?.imdb_id) ??
+				null;
+		}
+		if (fields.includes("watchProviders")) {
+			result.watchProviders = details["watch/providers"]?.results;
+		}
+		if (fields.includes("runtime")) {
+			result.runtime =
+				(type === "movie" ? details.runtime : details.episode_run_time?.[0]) ??
+				null;
+		}
+		if (fields.includes("certification")) {
+			result.certification =
+				(type === "movie"
+					? details.release_dates?.results
+							.find((release) => release.iso_3166_1 === region)
+							?.release_dates.find((date) => date.certification)?.certification
+					: details.content_ratings?.results.find(
+							(rating) => rating.iso_3166_1 === region,
+						)?.rating) || null;
 		}
+		return result;
 	}
 }
@@ -1,6 +1,15 @@
 import dedent from "dedent";
+import type { Context, FastMCPSessionAuth } from "fastmcp";
 import { z } from "zod";
-import { OmdbService } from "../../services/omdb-service.js";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import {
+	emptyResult,
+	formatParam,
+	formatResult,
+	markdownTable,
+} from "../../lib/format.js";
+import { OmdbService, omdbItemSchema } from "../../services/omdb-service.js";
 
 /**
  * Zod schema for OMDB tool parameters.
@@ -15,10 +24,18 @@ const omdbToolParams = z.object({
 		.enum(["movie", "series", "episode"])
 		.optional()
 		.describe("Specify whether to search for a movie, series, or episode"),
+	format: formatParam,
 });
 
 type OmdbToolParams = z.infer<typeof omdbToolParams>;
 
+/**
+ * Output schema for the OMDB tool; `result` is null when nothing matched.
+ */
+const omdbToolOutput = z.object({
+	result: omdbItemSchema.nullable(),
+});
+
 /**
  * OMDB tool for MCP (Model Context Protocol) server.
  *
@@ -31,36 +48,71 @@ export const omdbDetailsTool = {
 	description:
 		" Get IMDB info and also Get detailed information about a movie, series, or episode from OMDB",
 	parameters: omdbToolParams,
+	outputSchema: omdbToolOutput,
+	timeoutMs: config.http.toolDeadlineMs,
 
-	execute: async (params: OmdbToolParams) => {
+	execute: async (
+		params: OmdbToolParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
 		const omdbService = new OmdbService();
 
 		try {
-			const result = await omdbService.getByTitle(params.query, params.type);
+			const result = await omdbService.getByTitle(params.query, params.type, {
+				signal: context.signal,
+			});
 
 			if (!result) {
-				return `No ${params.type || "content"} found for "${params.query}".`;
+				return emptyResult(
+					params.format,
+					{ result: null },
+					`No ${params.type || "content"} found for "${params.query}".`,
+				);
 			}
 
-			return dedent`
-				Title: ${result.title} (${result.year})
-				IMDb Rating: ${result.rating} (${result.votes} votes)
-				Metascore: ${result.metascore}
-				Released: ${result.released}
-				Genre: ${result.genre}
-				Director: ${result.director}
-				Actors: ${result.actors}
-				Plot: ${result.plot}
-				Poster: ${result.posterUrl || "N/A"}
-			`;
+			return formatResult(
+				params.format,
+				{ result },
+				{
+					text: dedent`
+						Title: ${result.title} (${result.year})
+						IMDb Rating: ${result.rating} (${result.votes} votes)
+						Metascore: ${result.metascore}
+						Released: ${result.released}
+						Runtime: ${result.runtime}
+						Genre: ${result.genre}
+						Director: ${result.director}
+						Actors: ${result.actors}
+						Plot: ${result.plot}
+						Poster: ${result.posterUrl || "N/A"}
+					`,
+					table: markdownTable(
+						[
+							"Title",
+							"Year",
+							"IMDB ID",
+							"IMDb Rating",
+							"Runtime",
+							"Genre",
+							"Director",
+						],
+						[
+							[
+								result.title,
+								result.year,
+								result.imdbId,
+								result.rating,
+								result.runtime,
+								result.genre,
+								result.director,
+							],
+						],
+					),
+					compact: `${result.title} (${result.year}) · ⭐ ${result.rating} · ${result.runtime} · ${result.imdbId || "N/A"}`,
+				},
+			);
 		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("API key")) {
-					return "Error: OMDB API key is not configured. Please set the OMDB_API_KEY environment variable.";
-				}
-				return `Error fetching OMDB data: ${error.message}`;
-			}
-			return "An unknown error occurred while fetching data from OMDB.";
+			throw toUserError(error, "Error fetching OMDB data");
 		}
 	},
 } as const;
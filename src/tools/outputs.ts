@@ -0,0 +1,204 @@
+import { z } from "zod";
+import { config } from "../lib/config.js";
+import { markdownTable } from "../lib/format.js";
+import type { Diagnostics } from "../services/diagnostics-service.js";
+import {
+	type TmdbCollection,
+	type TmdbItem,
+	type TmdbPerson,
+	tmdbCollectionSchema,
+	tmdbItemSchema,
+	tmdbPersonResultSchema,
+} from "../services/tmdb-service.js";
+
+/**
+ * Country code parameter (ISO 3166-1), uppercased because TMDB matches
+ * regions case-sensitively.
+ */
+export const regionParam = z
+	.string()
+	.length(2)
+	.transform((code) => code.toUpperCase());
+
+/**
+ * Output schema of tools that return a list of movies or TV shows.
+ */
+export const tmdbItemsOutput = z.object({
+	results: z.array(tmdbItemSchema),
+});
+
+/**
+ * Output schema of tools that return a list of people.
+ */
+export const tmdbPeopleOutput = z.object({
+	results: z.array(tmdbPersonResultSchema),
+});
+
+/**
+ * Output schema of tools that return a list of collections.
+ */
+export const tmdbCollectionsOutput = z.object({
+	results: z.array(tmdbCollectionSchema),
+});
+
+/**
+ * Names of the flat-rate streaming providers in the configured watch region.
+ */
+export function streamingProviders(item: TmdbItem): string {
+	return (
+		item.watchProviders?.[config.tmdbApi.watchRegion]?.flatrate
+			?.map((p) => p.provider_name)
+			.join(", ") || "N/A"
+	);
+}
+
+export function tmdbItemsTable(items: TmdbItem[]): string {
+	return markdownTable(
+		["#", "Title", "Released", "Rating", "IMDB ID", "TMDB ID", "Stream on"],
+		items.map((item, i) => [
+			i + 1,
+			item.title,
+			item.releaseDate,
+			item.rating,
+			item.imdbId,
+			item.id,
+			streamingProviders(item),
+		]),
+	);
+}
+
+/**
+ * Year of a release date, or null when TMDB has none (normalized to
+ * "Unknown", or sent as "").
+ */
+export function releaseYear(date: string | null | undefined): string | null {
+	return date && /^\d{4}/.test(date) ? date.slice(0, 4) : null;
+}
+
+/**
+ * One-line summary of the `index`-th (zero-based) item of a list.
+ */
+export function tmdbItemLine(item: TmdbItem, index: number): string {
+	return `${index + 1}. ${item.title} (${item.releaseDate}) · ⭐ ${item.rating} · ${item.imdbId || "N/A"} · tmdb:${item.id}`;
+}
+
+export function tmdbItemsCompact(items: TmdbItem[]): string {
+	return items.map(tmdbItemLine).join("\n");
+}
+
+export function tmdbPeopleTable(people: TmdbPerson[]): string {
+	return markdownTable(
+		["#", "Name", "ID", "Department", "Popularity", "Known For"],
+		people.map((person, i) => [
+			i + 1,
+			person.name,
+			person.id,
+			person.knownForDepartment,
+			person.popularity,
+			person.knownFor,
+		]),
+	);
+}
+
+export function tmdbPeopleCompact(people: TmdbPerson[]): string {
+	return people
+		.map(
+			(person, i) =>
+				`${i + 1}. ${person.name} · ${person.knownForDepartment} · tmdb:${person.id}`,
+		)
+		.join("\n");
+}
+
+export function tmdbCollectionsTable(collections: TmdbCollection[]): string {
+	return markdownTable(
+		["#", "Name", "ID", "Overview"],
+		collections.map((collection, i) => [
+			i + 1,
+			collection.name,
+			collection.id,
+			collection.overview,
+		]),
+	);
+}
+
+export function tmdbCollectionsCompact(collections: TmdbCollection[]): string {
+	return collections
+		.map(
+			(collection, i) => `${i + 1}. ${collection.name} · tmdb:${collection.id}`,
+		)
+		.join("\n");
+}
+
+const percent = (ratio: number | null) =>
+	ratio === null ? "N/A" : `${Math.round(ratio * 100)}%`;
+
+export function diagnosticsApisTable(diagnostics: Diagnostics): string {
+	return markdownTable(
+		["API", "Credentials", "Status", "Latency (ms)", "Error"],
+		diagnostics.apis.map((api) => [
+			api.name,
+			api.configured ? "set" : "missing",
+			api.status,
+			api.latencyMs,
+			api.error,
+		]),
+	);
+}
+
+export function diagnosticsUpstreamsTable(diagnostics: Diagnostics): string {
+	if (!diagnostics.upstreams.length) return "No upstream requests yet.";
+	return markdownTable(
+		[
+			"Host",
+			"Requests",
+			"Errors",
+			"Error Rate",
+			"Avg Latency (ms)",
+			"Max Latency (ms)",
+			"Last Error",
+		],
+		diagnostics.upstreams.map((upstream) => [
+			upstream.host,
+			upstream.requests,
+			upstream.errors,
+			percent(upstream.errorRate),
+			upstream.averageLatencyMs,
+			upstream.maxLatencyMs,
+			upstream.lastError,
+		]),
+	);
+}
+
+/**
+ * Full diagnostics report, shared by the tool and the resource.
+ */
+export function diagnosticsMarkdown(diagnostics: Diagnostics): string {
+	const { cache, requests } = diagnostics;
+	return [
+		"# Server Diagnostics",
+		`Uptime: ${diagnostics.uptimeSeconds}s`,
+		"## Upstream APIs",
+		diagnosticsApisTable(diagnostics),
+		"## Requests Since Startup",
+		diagnosticsUpstreamsTable(diagnostics),
+		"## Cache",
+		cache.enabled
+			? `Hit ratio: ${percent(cache.hitRatio)} (${cache.hits} hits, ${cache.misses} misses), ${cache.entries} entries`
+			: "Disabled",
+		"## Request Queue",
+		`${requests.active} in flight, ${requests.queued} queued`,
+		"## Configuration",
+		`\`\`\`json\n${JSON.stringify(diagnostics.config, null, 2)}\n\`\`\``,
+	].join("\n\n");
+}
+
+export function diagnosticsCompact(diagnostics: Diagnostics): string {
+	const { cache, requests } = diagnostics;
+	return [
+		...diagnostics.apis.map(
+			(api) =>
+				`${api.name}: ${api.status}${api.latencyMs === null ? "" : ` (${api.latencyMs}ms)`}`,
+		),
+		`cache: ${cache.enabled ? `${percent(cache.hitRatio)} hits` : "disabled"} · requests: ${requests.active} in flight, ${requests.queued} queued`,
+	].join("\n");
+}
@@ -0,0 +1,61 @@
+import type { Context, FastMCPSessionAuth } from "fastmcp";
+import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import { formatParam, formatResult } from "../../lib/format.js";
+import {
+	DiagnosticsService,
+	diagnosticsSchema,
+} from "../../services/diagnostics-service.js";
+import {
+	diagnosticsApisTable,
+	diagnosticsCompact,
+	diagnosticsMarkdown,
+	diagnosticsUpstreamsTable,
+} from "../outputs.js";
+
+/**
+ * Zod schema for GET_SERVER_DIAGNOSTICS tool parameters.
+ */
+const serverDiagnosticsParams = z.object({
+	format: formatParam,
+});
+
+type ServerDiagnosticsParams = z.infer<typeof serverDiagnosticsParams>;
+
+/**
+ * GET_SERVER_DIAGNOSTICS tool for MCP (Model Context Protocol) server.
+ *
+ * This tool reports whether the API keys are set and accepted, upstream
+ * latency and error rates, cache and queue usage, and the effective
+ * configuration.
+ */
+export const serverDiagnosticsTool = {
+	name: "GET_SERVER_DIAGNOSTICS",
+	description:
+		"Reports server health: whether the TMDB and OMDB API keys are set and valid, upstream latency and error rates since startup, cache hit ratio, queued requests and the effective configuration (secrets redacted)",
+	parameters: serverDiagnosticsParams,
+	outputSchema: diagnosticsSchema,
+	timeoutMs: config.http.toolDeadlineMs,
+
+	execute: async (
+		params: ServerDiagnosticsParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
+		const diagnosticsService = new DiagnosticsService();
+
+		try {
+			const diagnostics = await diagnosticsService.getDiagnostics({
+				signal: context.signal,
+			});
+
+			return formatResult(params.format, diagnostics, {
+				text: diagnosticsMarkdown(diagnostics),
+				table: `${diagnosticsApisTable(diagnostics)}\n\n${diagnosticsUpstreamsTable(diagnostics)}`,
+				compact: diagnosticsCompact(diagnostics),
+			});
+		} catch (error) {
+			throw toUserError(error, "Error collecting server diagnostics");
+		}
+	},
+} as const;
@@ -1,12 +1,30 @@
 import dedent from "dedent";
+import type { Context, FastMCPSessionAuth } from "fastmcp";
 import { z } from "zod";
-import { TmdbService } from "../../services/tmdb-service.js";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import {
+	emptyResult,
+	formatParam,
+	formatResult,
+	markdownTable,
+} from "../../lib/format.js";
+import {
+	TmdbService,
+	tmdbCollectionSchema,
+} from "../../services/tmdb-service.js";
+import {
+	tmdbCollectionsCompact,
+	tmdbCollectionsOutput,
+	tmdbCollectionsTable,
+} from "../outputs.js";
 
 /**
  * Zod schema for GET_TMDB_SEARCH_COLLECTIONS tool parameters.
  */
 const tmdbSearchCollectionsParams = z.object({
 	query: z.string().describe("The name of the collection to search for."),
+	format: formatParam,
 });
 
 type TmdbSearchCollectionsParams = z.infer<typeof tmdbSearchCollectionsParams>;
@@ -20,19 +38,31 @@ export const tmdbSearchCollectionsTool = {
 	name: "GET_TMDB_SEARCH_COLLECTIONS",
 	description: "Searches for movie collections by name using the TMDB service.",
 	parameters: tmdbSearchCollectionsParams,
+	outputSchema: tmdbCollectionsOutput,
+	timeoutMs: config.http.toolDeadlineMs,
 
-	execute: async (params: TmdbSearchCollectionsParams) => {
+	execute: async (
+		params: TmdbSearchCollectionsParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
 		const tmdbService = new TmdbService();
 
 		try {
-			const results = await tmdbService.searchCollections(params.query);
+			const results = await tmdbService.searchCollections(params.query, {
+				signal: context.signal,
+			});
 
 			if (!results.length) {
-				return `No collections found matching "${params.query}".`;
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`No collections found matching "${params.query}".`,
+				);
 			}
 
-			const formatted = results
-				.slice(0, 5) // Limit to top 5 results
+			const top = results.slice(0, 5); // Limit to top 5 results
+
+			const formatted = top
 				.map(
 					(collection, i) => dedent`
                     ${i + 1}. Name: ${collection.name}
@@ -43,19 +73,21 @@ export const tmdbSearchCollectionsTool = {
 				)
 				.join("\n\n");
 
-			return dedent`
-                Here are some collections found matching "${params.query}":
-
-                ${formatted}
-            `;
+			return formatResult(
+				params.format,
+				{ results: top },
+				{
+					text: dedent`
+						Here are some collections found matching "${params.query}":
+
+						${formatted}
+					`,
+					table: tmdbCollectionsTable(top),
+					compact: tmdbCollectionsCompact(top),
+				},
+			);
 		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("API key")) {
-					return "Error: API key is not configured. Please set the TMDB_API_KEY environment variable.";
-				}
-				return `Error searching for collections: ${error.message}`;
-			}
-			return "An unknown error occurred while searching for collections.";
+			throw toUserError(error, "Error searching for collections");
 		}
 	},
 } as const;
@@ -67,10 +99,19 @@ const tmdbCollectionDetailsParams = z.object({
 	collectionId: z
 		.number()
 		.describe("The ID of the collection to get details for."),
+	format: formatParam,
 });
 
 type TmdbCollectionDetailsParams = z.infer<typeof tmdbCollectionDetailsParams>;
 
+/**
+ * Output schema for GET_TMDB_COLLECTION_DETAILS; `collection` is null when
+ * the ID is unknown.
+ */
+const tmdbCollectionDetailsOutput = z.object({
+	collection: tmdbCollectionSchema.nullable(),
+});
+
 /**
  * GET_TMDB_COLLECTION_DETAILS tool for MCP (Model Context Protocol) server.
  *
@@ -81,17 +122,27 @@ export const tmdbCollectionDetailsTool = {
 	description:
 		"Fetches detailed information about a specific movie collection by its ID using the TMDB service.",
 	parameters: tmdbCollectionDetailsParams,
+	outputSchema: tmdbCollectionDetailsOutput,
+	timeoutMs: config.http.toolDeadlineMs,
 
-	execute: async (params: TmdbCollectionDetailsParams) => {
+	execute: async (
+		params: TmdbCollectionDetailsParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
 		const tmdbService = new TmdbService();
 
 		try {
 			const collection = await tmdbService.getCollectionDetails(
 				params.collectionId,
+				{ signal: context.signal },
 			);
 
 			if (!collection) {
-				return `No collection found for ID ${params.collectionId}.`;
+				return emptyResult(
+					params.format,
+					{ collection: null },
+					`No collection found for ID ${params.collectionId}.`,
+				);
 			}
 
 			const formattedParts = collection.parts
@@ -105,24 +156,43 @@ export const tmdbCollectionDetailsTool = {
 				)
 				.join("\n");
 
-			return dedent`
-                Here are the details for the collection "${collection.name}" (ID: ${collection.id}):
-
-                Overview: ${collection.overview}
-                Poster: ${collection.posterUrl || "N/A"}
-                Backdrop: ${collection.backdropUrl || "N/A"}
-
-                Movies in this collection:
-                ${formattedParts || "No movies found in this collection."}
-            `;
+			const parts = collection.parts.map((movie) => [
+				movie.title,
+				movie.id,
+				movie.releaseDate,
+				movie.rating,
+			]);
+
+			return formatResult(
+				params.format,
+				{ collection },
+				{
+					text: dedent`
+						Here are the details for the collection "${collection.name}" (ID: ${collection.id}):
+
+						Overview: ${collection.overview}
+						Poster: ${collection.posterUrl || "N/A"}
+						Backdrop: ${collection.backdropUrl || "N/A"}
+
+						Movies in this collection:
+						${formattedParts || "No movies found in this collection."}
+					`,
+					table: dedent`
+						## ${collection.name} (ID: ${collection.id})
+
+						${markdownTable(["Title", "TMDB ID", "Released", "Rating"], parts)}
+					`,
+					compact: [
+						`${collection.name} · tmdb:${collection.id}`,
+						...collection.parts.map(
+							(movie, i) =>
+								`${i + 1}. ${movie.title} (${movie.releaseDate}) · ⭐ ${movie.rating} · tmdb:${movie.id}`,
+						),
+					].join("\n"),
+				},
+			);
 		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("API key")) {
-					return "Error: API key is not configured. Please set the TMDB_API_KEY environment variable.";
-				}
-				return `Error fetching collection details: ${error.message}`;
-			}
-			return "An unknown error occurred while fetching collection details.";
+			throw toUserError(error, "Error fetching collection details");
 		}
 	},
 } as const;
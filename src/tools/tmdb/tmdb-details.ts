@@ -1,6 +1,16 @@
 import dedent from "dedent";
+import type { Context, FastMCPSessionAuth } from "fastmcp";
 import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import { emptyResult, formatParam, formatResult } from "../../lib/format.js";
 import { TmdbService } from "../../services/tmdb-service.js";
+import {
+	streamingProviders,
+	tmdbItemsCompact,
+	tmdbItemsOutput,
+	tmdbItemsTable,
+} from "../outputs.js";
 
 /**
  * Zod schema for TMDB tool parameters.
@@ -14,6 +24,7 @@ const tmdbToolParams = z.object({
 	type: z
 		.enum(["movie", "tv"])
 		.describe("Specify whether to search for a movie or TV show"),
+	format: formatParam,
 });
 
 type TmdbToolParams = z.infer<typeof tmdbToolParams>;
@@ -29,26 +40,41 @@ export const tmdbDetailsTool = {
 	name: "GET_TMDB_INFO",
 	description: "Get detailed information about a movie or TV show from TMDB",
 	parameters: tmdbToolParams,
+	outputSchema: tmdbItemsOutput,
+	timeoutMs: config.http.toolDeadlineMs,
 
-	execute: async (params: TmdbToolParams) => {
+	execute: async (
+		params: TmdbToolParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
 		const tmdbService = new TmdbService();
 
 		try {
 			let results = [];
 
 			if (params.type === "movie") {
-				results = await tmdbService.getMovieByTitle(params.query);
+				results = await tmdbService.getMovieByTitle(params.query, {
+					signal: context.signal,
+					limit: 3,
+					enrich: ["imdbId", "watchProviders"],
+				});
 			} else {
-				results = await tmdbService.getTvShowByTitle(params.query);
+				results = await tmdbService.getTvShowByTitle(params.query, {
+					signal: context.signal,
+					limit: 3,
+					enrich: ["imdbId", "watchProviders"],
+				});
 			}
 
 			if (!results.length) {
-				return `No ${params.type === "movie" ? "movies" : "TV shows"} found for "${params.query}".`;
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`No ${params.type === "movie" ? "movies" : "TV shows"} found for "${params.query}".`,
+				);
 			}
 
-			const top = results.slice(0, 3); // limit to top 3 results for brevity
-
-			const formatted = top
+			const formatted = results
 				.map(
 					(item, i) =>
 						dedent`
@@ -58,24 +84,26 @@ export const tmdbDetailsTool = {
 					   🗣️ Language: ${item.language.toUpperCase()}
 					   📖 Overview: ${item.description}
 					   🖼️ Poster: ${item.posterUrl || "N/A"}
-					   📺 Stream on: ${item.watchProviders?.IN?.flatrate?.map((p) => p.provider_name).join(", ") || "N/A"}
+					   📺 Stream on: ${streamingProviders(item)}
 				`,
 				)
 				.join("\n\n");
 
-			return dedent`
-				Top ${params.type === "movie" ? "Movies" : "TV Shows"} for "${params.query}":
-				
-				${formatted}
-			`;
+			return formatResult(
+				params.format,
+				{ results },
+				{
+					text: dedent`
+						Top ${params.type === "movie" ? "Movies" : "TV Shows"} for "${params.query}":
+
+						${formatted}
+					`,
+					table: tmdbItemsTable(results),
+					compact: tmdbItemsCompact(results),
+				},
+			);
 		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("API key")) {
-					return "Error: TMDB API key is not configured. Please set the TMDB_API_KEY environment variable.";
-				}
-				return `Error fetching TMDB data: ${error.message}`;
-			}
-			return "An unknown error occurred while fetching data from TMDB.";
+			throw toUserError(error, "Error fetching TMDB data");
 		}
 	},
 } as const;
@@ -1,6 +1,16 @@
 import dedent from "dedent";
+import type { Context, FastMCPSessionAuth } from "fastmcp";
 import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import { emptyResult, formatParam, formatResult } from "../../lib/format.js";
+import { progressCallOptions } from "../../lib/progress.js";
 import { TmdbService } from "../../services/tmdb-service.js";
+import {
+	tmdbItemsCompact,
+	tmdbItemsOutput,
+	tmdbItemsTable,
+} from "../outputs.js";
 
 /**
  * Zod schema for GET_TMDB_DISCOVER_BY_ACTOR tool parameters.
@@ -18,6 +28,7 @@ const tmdbDiscoverByActorParams = z.object({
 		.number()
 		.optional()
 		.describe("The release year of the entertainment (e.g., 2023)."),
+	format: formatParam,
 });
 
 type TmdbDiscoverByActorParams = z.infer<typeof tmdbDiscoverByActorParams>;
@@ -30,10 +41,15 @@ type TmdbDiscoverByActorParams = z.infer<typeof tmdbDiscoverByActorParams>;
 export const tmdbDiscoverByActorTool = {
 	name: "GET_TMDB_DISCOVER_BY_ACTOR",
 	description:
-		"Discovers movies or TV shows by an actor's ID using the TMDB service.",
+		"Discovers movies or TV shows by an actor's ID using the TMDB service, most popular first. TV shows come from the actor's credits, including guest spots.",
 	parameters: tmdbDiscoverByActorParams,
+	outputSchema: tmdbItemsOutput,
+	timeoutMs: config.http.toolDeadlineMs,
 
-	execute: async (params: TmdbDiscoverByActorParams) => {
+	execute: async (
+		params: TmdbDiscoverByActorParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
 		const tmdbService = new TmdbService();
 
 		try {
@@ -41,14 +57,22 @@ export const tmdbDiscoverByActorTool = {
 				params.actorId,
 				params.mediaType,
 				params.releaseYear,
+				{
+					...progressCallOptions(context),
+					limit: 5,
+					enrich: ["imdbId", "watchProviders"],
+				},
 			);
 
 			if (!results.length) {
-				return `No ${params.mediaType}s found for actor ID ${params.actorId}${params.releaseYear ? ` in ${params.releaseYear}` : ""}.`;
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`No ${params.mediaType}s found for actor ID ${params.actorId}${params.releaseYear ? ` in ${params.releaseYear}` : ""}.`,
+				);
 			}
 
 			const formatted = results
-				.slice(0, 5) // Limit to top 5 suggestions
 				.map(
 					(item, i) => dedent`
                     ${i + 1}. ${item.title} (${item.releaseDate})
@@ -61,19 +85,21 @@ export const tmdbDiscoverByActorTool = {
 				)
 				.join("\n\n");
 
-			return dedent`
-                Here are some suggested ${params.mediaType}s starring the actor (ID: ${params.actorId}):
+			return formatResult(
+				params.format,
+				{ results },
+				{
+					text: dedent`
+						Here are some suggested ${params.mediaType}s starring the actor (ID: ${params.actorId}):
 
-                ${formatted}
-            `;
+						${formatted}
+					`,
+					table: tmdbItemsTable(results),
+					compact: tmdbItemsCompact(results),
+				},
+			);
 		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("API key")) {
-					return "Error: API key is not configured. Please set the TMDB_API_KEY environment variable.";
-				}
-				return `Error discovering entertainment by actor: ${error.message}`;
-			}
-			return "An unknown error occurred while discovering entertainment by actor.";
+			throw toUserError(error, "Error discovering entertainment by actor");
 		}
 	},
 } as const;
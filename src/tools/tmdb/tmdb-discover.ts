@@ -0,0 +1,268 @@
+import type { Context, FastMCPSessionAuth } from "fastmcp";
+import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import { emptyResult, formatParam, formatResult } from "../../lib/format.js";
+import { progressCallOptions } from "../../lib/progress.js";
+import {
+	discoverSupport,
+	TmdbService,
+	tmdbDiscoverSorts,
+} from "../../services/tmdb-service.js";
+import {
+	regionParam,
+	tmdbItemLine,
+	tmdbItemsCompact,
+	tmdbItemsOutput,
+	tmdbItemsTable,
+} from "../outputs.js";
+
+const isoDate = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+const ids = (what: string) =>
+	z.array(z.number().int()).optional().describe(what);
+
+/**
+ * Zod schema for GET_TMDB_DISCOVER tool parameters.
+ *
+ * Filters that TMDB only supports for one media type are rejected for the
+ * other, as are inverted ranges.
+ */
+const tmdbDiscoverParams = z
+	.object({
+		mediaType: z
+			.enum(["movie", "tv"])
+			.describe("The type of media to discover."),
+		genres: z
+			.array(z.string())
+			.optional()
+			.describe('Genre names to include, e.g. ["Thriller", "Crime"].'),
+		genreMatch: z
+			.enum(["all", "any"])
+			.default("all")
+			.describe("Whether results need every listed genre or any of them."),
+		withoutGenres: z
+			.array(z.string())
+			.optional()
+			.describe("Genre names to exclude."),
+		year: z
+			.number()
+			.int()
+			.optional()
+			.describe("Release year (first air year for TV)."),
+		releasedFrom: isoDate
+			.optional()
+			.describe("Earliest release or first air date (YYYY-MM-DD)."),
+		releasedTo: isoDate
+			.optional()
+			.describe("Latest release or first air date (YYYY-MM-DD)."),
+		minRating: z.number().min(0).max(10).optional(),
+		maxRating: z.number().min(0).max(10).optional(),
+		minVotes: z.number().int().min(0).optional(),
+		maxVotes: z.number().int().min(0).optional(),
+		minRuntime: z
+			.number()
+			.int()
+			.min(0)
+			.optional()
+			.describe("Minimum runtime in minutes."),
+		maxRuntime: z
+			.number()
+			.int()
+			.min(0)
+			.optional()
+			.describe("Maximum runtime in minutes."),
+		originalLanguage: z
+			.string()
+			.length(2)
+			.optional()
+			.describe('Original language as an ISO 639-1 code, e.g. "ko".'),
+		certification: z
+			.string()
+			.optional()
+			.describe('Movies only. Age rating, e.g. "PG-13".'),
+		certificationCountry: regionParam
+			.optional()
+			.describe(
+				`Country of the certification (ISO 3166-1). Defaults to ${config.tmdbApi.watchRegion}.`,
+			),
+		keywords: ids("TMDB keyword IDs; results need one of them."),
+		companies: ids("TMDB production company IDs; results need one of them."),
+		networks: ids("TV only. TMDB network IDs; results need one of them."),
+		cast: ids("Movies only. TMDB person IDs who must all be in the cast."),
+		crew: ids("Movies only. TMDB person IDs who must all be in the crew."),
+		watchProviders: ids(
+			"TMDB watch provider IDs; results need to be available on one of them.",
+		),
+		watchRegion: regionParam
+			.optional()
+			.describe(
+				`Country for watchProviders (ISO 3166-1). Defaults to ${config.tmdbApi.watchRegion}.`,
+			),
+		sortBy: z
+			.enum(tmdbDiscoverSorts)
+			.default("popularity")
+			.describe('Sort order; "revenue" is for movies only.'),
+		sortOrder: z.enum(["asc", "desc"]).default("desc"),
+		page: z
+			.number()
+			.int()
+			.min(1)
+			.max(500)
+			.default(1)
+			.describe("Page of TMDB results (20 per page)."),
+		limit: z
+			.number()
+			.int()
+			.min(1)
+			.max(20)
+			.default(10)
+			.describe("Maximum number of results from the page to return."),
+		format: formatParam,
+	})
+	.superRefine((params, ctx) => {
+		for (const [filter, mediaType] of Object.entries(discoverSupport)) {
+			const value =
+				filter === "revenue"
+					? params.sortBy === "revenue" || undefined
+					: params[filter as keyof typeof params];
+			const used = Array.isArray(value) ? value.length > 0 : value != null;
+			if (used && params.mediaType !== mediaType) {
+				ctx.addIssue({
+					code: "custom",
+					path: [filter === "revenue" ? "sortBy" : filter],
+					message: `"${filter}" is only supported for ${mediaType === "movie" ? "movies" : "TV shows"}`,
+				});
+			}
+		}
+
+		const ranges = [
+			["releasedFrom", "releasedTo"],
+			["minRating", "maxRating"],
+			["minVotes", "maxVotes"],
+			["minRuntime", "maxRuntime"],
+		] as const;
+		for (const [min, max] of ranges) {
+			const low = params[min];
+			const high = params[max];
+			if (low !== undefined && high !== undefined && low > high) {
+				ctx.addIssue({
+					code: "custom",
+					path: [max],
+					message: `"${max}" must not be less than "${min}"`,
+				});
+			}
+		}
+	});
+
+type TmdbDiscoverParams = z.infer<typeof tmdbDiscoverParams>;
+
+/**
+ * GET_TMDB_DISCOVER tool for MCP (Model Context Protocol) server.
+ *
+ * This tool exposes TMDB's discover endpoints with their full filter set, for
+ * queries like "Korean thrillers from 2015-2020 with at least 500 votes,
+ * under two hours, by rating".
+ */
+export const tmdbDiscoverTool = {
+	name: "GET_TMDB_DISCOVER",
+	description:
+		"Discovers movies or TV shows with any combination of filters: genres (all or any, plus exclusions), release date range or year, rating and vote count bounds, runtime bounds, original language, certification, keywords, companies, networks, cast and crew, and watch providers in a region, with a sort order and page.",
+	parameters: tmdbDiscoverParams,
+	outputSchema: tmdbItemsOutput,
+	timeoutMs: config.http.toolDeadlineMs,
+
+	execute: async (
+		params: TmdbDiscoverParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
+		const tmdbService = new TmdbService();
+		const options = progressCallOptions(context);
+
+		try {
+			// Genres are given by name; resolve them to TMDB genre IDs
+			let genres: number[] | undefined;
+			let withoutGenres: number[] | undefined;
+			if (params.genres?.length || params.withoutGenres?.length) {
+				const known = await tmdbService.getGenres(params.mediaType, options);
+				const genreIds = new Map(
+					known.map((g) => [g.name.toLowerCase(), g.id]),
+				);
+				const toIds = (names: string[] = []) =>
+					names.flatMap((name) => genreIds.get(name.toLowerCase()) ?? []);
+
+				const unknown = [
+					...(params.genres ?? []),
+					...(params.withoutGenres ?? []),
+				].filter((name) => !genreIds.has(name.toLowerCase()));
+				if (unknown.length) {
+					return emptyResult(
+						params.format,
+						{ results: [] },
+						`Unknown ${params.mediaType === "movie" ? "movie" : "TV"} genre(s): ${unknown.join(", ")}. Known genres: ${known.map((g) => g.name).join(", ")}.`,
+					);
+				}
+				genres = toIds(params.genres);
+				withoutGenres = toIds(params.withoutGenres);
+			}
+
+			const results = await tmdbService.discover(
+				params.mediaType,
+				{
+					genres,
+					genreMatch: params.genreMatch,
+					withoutGenres,
+					year: params.year,
+					releasedFrom: params.releasedFrom,
+					releasedTo: params.releasedTo,
+					minRating: params.minRating,
+					maxRating: params.maxRating,
+					minVotes: params.minVotes,
+					maxVotes: params.maxVotes,
+					minRuntime: params.minRuntime,
+					maxRuntime: params.maxRuntime,
+					originalLanguage: params.originalLanguage,
+					certification: params.certification,
+					certificationCountry: params.certificationCountry,
+					keywords: params.keywords,
+					companies: params.companies,
+					networks: params.networks,
+					cast: params.cast,
+					crew: params.crew,
+					watchProviders: params.watchProviders,
+					watchRegion: params.watchRegion,
+					sortBy: params.sortBy,
+					sortOrder: params.sortOrder,
+					page: params.page,
+				},
+				{
+					...options,
+					limit: params.limit,
+					enrich: ["imdbId", "watchProviders"],
+				},
+			);
+
+			if (!results.length) {
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`No ${params.mediaType === "movie" ? "movies" : "TV shows"} match these filters${params.page > 1 ? ` on page ${params.page}` : ""}.`,
+				);
+			}
+
+			return formatResult(
+				params.format,
+				{ results },
+				{
+					text: `${params.mediaType === "movie" ? "Movies" : "TV shows"} matching the filters (page ${params.page}):\n\n${results.map(tmdbItemLine).join("\n")}`,
+					table: tmdbItemsTable(results),
+					compact: tmdbItemsCompact(results),
+				},
+			);
+		} catch (error) {
+			throw toUserError(error, "Error discovering TMDB titles");
+		}
+	},
+} as const;
@@ -0,0 +1,212 @@
+import dedent from "dedent";
+import type { Context, FastMCPSessionAuth } from "fastmcp";
+import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import {
+	emptyResult,
+	formatParam,
+	formatResult,
+	markdownTable,
+} from "../../lib/format.js";
+import {
+	type TmdbEntity,
+	type TmdbExternalSource,
+	type TmdbFindResult,
+	TmdbService,
+	tmdbExternalSources,
+	tmdbFindResultSchema,
+} from "../../services/tmdb-service.js";
+
+/**
+ * What a pasted ID or URL refers to: an external ID to look up, or a TMDB
+ * record itself.
+ */
+type Reference =
+	| { source: TmdbExternalSource; id: string }
+	| { source: "tmdb"; entity: TmdbEntity };
+
+/**
+ * Parses a raw ID, or an IMDb, TMDB or Wikidata URL. Raw IMDb (tt…, nm…) and
+ * Wikidata (Q…) IDs are recognized; other raw IDs need their `source`.
+ * Returns null when the input is neither.
+ */
+function parseReference(
+	input: string,
+	source?: TmdbExternalSource,
+): Reference | null {
+	const value = input.trim();
+
+	if (
+		/^(https?:\/\/)?([\w-]+\.)*(imdb|themoviedb|wikidata)\.(com|org)\//i.test(
+			value,
+		)
+	) {
+		const url = new URL(/^https?:/i.test(value) ? value : `https://${value}`);
+		const host = url.hostname.toLowerCase();
+
+		if (host.endsWith("imdb.com")) {
+			const match = url.pathname.match(/^\/(?:title|name)\/((?:tt|nm)\d+)/);
+			return match ? { source: "imdb", id: match[1] } : null;
+		}
+		if (host.endsWith("wikidata.org")) {
+			const match = url.pathname.match(/^\/(?:wiki|entity)\/(Q\d+)/);
+			return match ? { source: "wikidata", id: match[1] } : null;
+		}
+
+		// e.g. /tv/1399-game-of-thrones/season/1/episode/1; a season alone
+		// refers to the show
+		const match = url.pathname.match(
+			/^\/(movie|tv|person)\/(\d+)[^/]*(?:\/season\/(\d+)\/episode\/(\d+))?/,
+		);
+		if (!match) return null;
+		const [, type, id, seasonNumber, episodeNumber] = match;
+		return {
+			source: "tmdb",
+			entity: episodeNumber
+				? {
+						type: "episode",
+						tvId: Number(id),
+						seasonNumber: Number(seasonNumber),
+						episodeNumber: Number(episodeNumber),
+					}
+				: { type: type as "movie" | "tv" | "person", id: Number(id) },
+		};
+	}
+
+	if (source) return { source, id: value };
+	if (/^(tt|nm)\d+$/i.test(value)) {
+		return { source: "imdb", id: value.toLowerCase() };
+	}
+	if (/^q\d+$/i.test(value)) {
+		return { source: "wikidata", id: value.toUpperCase() };
+	}
+	return null;
+}
+
+/**
+ * Zod schema for GET_TMDB_BY_EXTERNAL_ID tool parameters.
+ */
+const tmdbByExternalIdParams = z
+	.object({
+		id: z
+			.string()
+			.min(1)
+			.describe(
+				'An IMDb, TVDB, Wikidata or social media ID, or an IMDb, TMDB or Wikidata URL, e.g. "tt1375666" or "https://www.imdb.com/title/tt0944947/".',
+			),
+		source: z
+			.enum(tmdbExternalSources)
+			.optional()
+			.describe(
+				"Where a raw ID is from. Inferred for IMDb (tt…, nm…) and Wikidata (Q…) IDs and for URLs; required for others, e.g. TVDB IDs.",
+			),
+		format: formatParam,
+	})
+	.superRefine((params, ctx) => {
+		if (!parseReference(params.id, params.source)) {
+			ctx.addIssue({
+				code: "custom",
+				path: ["id"],
+				message: `"${params.id}" is not a recognized IMDb, TMDB or Wikidata ID or URL; pass "source" for other IDs`,
+			});
+		}
+	});
+
+type TmdbByExternalIdParams = z.infer<typeof tmdbByExternalIdParams>;
+
+/**
+ * Output schema for GET_TMDB_BY_EXTERNAL_ID; `result` is null when nothing
+ * matches.
+ */
+const tmdbByExternalIdOutput = z.object({
+	result: tmdbFindResultSchema.nullable(),
+});
+
+/**
+ * Heading line of a match.
+ */
+function resultHeading(result: TmdbFindResult): string {
+	switch (result.type) {
+		case "person":
+			return `👤 ${result.name} (person, ${result.knownForDepartment}) · tmdb:${result.id}`;
+		case "episode":
+			return `📺 S${result.seasonNumber}E${result.episodeNumber} "${result.name}" (episode of TV show tmdb:${result.tvId}, ${result.airDate ?? "TBA"}) · tmdb:${result.id}`;
+		default:
+			return `🎬 ${result.title} (${result.type === "movie" ? "movie" : "TV show"}, ${result.releaseDate}) · ⭐ ${result.rating} · tmdb:${result.id}`;
+	}
+}
+
+/**
+ * GET_TMDB_BY_EXTERNAL_ID tool for MCP (Model Context Protocol) server.
+ *
+ * This tool maps an ID or link from elsewhere, such as a pasted IMDb URL, to
+ * the TMDB record other tools take. TMDB URLs name the record already, so
+ * it is fetched directly.
+ */
+export const tmdbByExternalIdTool = {
+	name: "GET_TMDB_BY_EXTERNAL_ID",
+	description:
+		"Finds the TMDB movie, TV show, episode or person for an IMDb, TVDB, Wikidata or social media ID, or for a pasted IMDb, TMDB or Wikidata URL, with its TMDB ID and every external ID TMDB knows for it. Use the TMDB ID with the other tools, e.g. for watch providers or collections.",
+	parameters: tmdbByExternalIdParams,
+	outputSchema: tmdbByExternalIdOutput,
+	timeoutMs: config.http.toolDeadlineMs,
+
+	execute: async (
+		params: TmdbByExternalIdParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
+		const tmdbService = new TmdbService();
+		const options = { signal: context.signal };
+		const notFound = () =>
+			emptyResult(
+				params.format,
+				{ result: null },
+				`No movie, TV show, episode or person found for ${params.id}.`,
+			);
+
+		try {
+			const reference = parseReference(params.id, params.source);
+			if (!reference) return notFound();
+
+			const result =
+				reference.source === "tmdb"
+					? await tmdbService.getWithExternalIds(reference.entity, options)
+					: await tmdbService.findByExternalId(
+							reference.source,
+							reference.id,
+							options,
+						);
+			if (!result) return notFound();
+
+			const externalIds = tmdbExternalSources
+				.filter((source) => result.externalIds[source])
+				.map((source) => `${source}:${result.externalIds[source]}`);
+
+			return formatResult(
+				params.format,
+				{ result },
+				{
+					text: dedent`
+						${resultHeading(result)}
+						🔗 External IDs: ${externalIds.join(", ") || "None"}
+					`,
+					table: dedent`
+						## ${resultHeading(result)}
+
+						${markdownTable(
+							["Source", "ID"],
+							tmdbExternalSources.map((source) => [
+								source,
+								result.externalIds[source],
+							]),
+						)}
+					`,
+					compact: `${result.type}:${result.id} ${externalIds.join(" ")}`,
+				},
+			);
+		} catch (error) {
+			throw toUserError(error, "Error looking up external ID");
+		}
+	},
+} as const;
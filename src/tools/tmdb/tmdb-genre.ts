@@ -1,6 +1,16 @@
 import dedent from "dedent";
+import type { Context, FastMCPSessionAuth } from "fastmcp";
 import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import { emptyResult, formatParam, formatResult } from "../../lib/format.js";
+import { progressCallOptions } from "../../lib/progress.js";
 import { TmdbService } from "../../services/tmdb-service.js";
+import {
+	tmdbItemsCompact,
+	tmdbItemsOutput,
+	tmdbItemsTable,
+} from "../outputs.js";
 
 /**
  * Zod schema for TMDB Genre tool parameters.
@@ -12,6 +22,7 @@ const tmdbGenreParams = z.object({
 	genre: z
 		.string()
 		.describe("The name of the genre to search for (e.g., 'Action', 'Comedy')"),
+	format: formatParam,
 });
 
 type TmdbGenreParams = z.infer<typeof tmdbGenreParams>;
@@ -25,27 +36,43 @@ export const tmdbGenreTool = {
 	name: "GET_TMDB_BY_GENRE",
 	description: "Get a list of movies or TV shows by genre from TMDB",
 	parameters: tmdbGenreParams,
+	outputSchema: tmdbItemsOutput,
+	timeoutMs: config.http.toolDeadlineMs,
 
-	execute: async (params: TmdbGenreParams) => {
+	execute: async (
+		params: TmdbGenreParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
 		const tmdbService = new TmdbService();
+		const options = progressCallOptions(context);
 
 		try {
-			const genres = await tmdbService.getGenres(params.mediaType);
+			const genres = await tmdbService.getGenres(params.mediaType, options);
 			const selectedGenre = genres.find(
 				(g) => g.name.toLowerCase() === params.genre.toLowerCase(),
 			);
 
 			if (!selectedGenre) {
-				return `Genre "${params.genre}" not found for ${params.mediaType === "movie" ? "movies" : "TV shows"}.`;
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`Genre "${params.genre}" not found for ${params.mediaType === "movie" ? "movies" : "TV shows"}.`,
+				);
 			}
 
 			const results = await tmdbService.discoverByGenre(
 				params.mediaType,
 				selectedGenre.id,
+				undefined,
+				{ ...options, enrich: ["imdbId", "watchProviders"] },
 			);
 
 			if (!results.length) {
-				return `No ${params.mediaType === "movie" ? "movies" : "TV shows"} found for genre "${params.genre}".`;
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`No ${params.mediaType === "movie" ? "movies" : "TV shows"} found for genre "${params.genre}".`,
+				);
 			}
 
 			const formatted = results
@@ -62,19 +89,21 @@ export const tmdbGenreTool = {
 				)
 				.join("\n\n");
 
-			return dedent`
-                Top ${params.mediaType === "movie" ? "Movies" : "TV Shows"} in genre "${params.genre}":
+			return formatResult(
+				params.format,
+				{ results },
+				{
+					text: dedent`
+						Top ${params.mediaType === "movie" ? "Movies" : "TV Shows"} in genre "${params.genre}":
 
-                ${formatted}
-            `;
+						${formatted}
+					`,
+					table: tmdbItemsTable(results),
+					compact: tmdbItemsCompact(results),
+				},
+			);
 		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("API key")) {
-					return "Error: TMDB API key is not configured. Please set the TMDB_API_KEY environment variable.";
-				}
-				return `Error fetching TMDB data by genre: ${error.message}`;
-			}
-			return "An unknown error occurred while fetching data from TMDB by genre.";
+			throw toUserError(error, "Error fetching TMDB data by genre");
 		}
 	},
 } as const;
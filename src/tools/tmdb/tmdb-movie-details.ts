@@ -0,0 +1,157 @@
+import dedent from "dedent";
+import type { Context, FastMCPSessionAuth } from "fastmcp";
+import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import {
+	emptyResult,
+	formatParam,
+	formatResult,
+	markdownTable,
+} from "../../lib/format.js";
+import {
+	TmdbService,
+	tmdbMovieDetailsResultSchema,
+} from "../../services/tmdb-service.js";
+import { streamingProviders } from "../outputs.js";
+
+/**
+ * Zod schema for GET_TMDB_MOVIE_DETAILS tool parameters.
+ */
+const tmdbMovieDetailsParams = z.object({
+	movieId: z.number().describe("The TMDB ID of the movie."),
+	format: formatParam,
+});
+
+type TmdbMovieDetailsParams = z.infer<typeof tmdbMovieDetailsParams>;
+
+/**
+ * Output schema for GET_TMDB_MOVIE_DETAILS; `movie` is null when the ID is
+ * unknown.
+ */
+const tmdbMovieDetailsOutput = z.object({
+	movie: tmdbMovieDetailsResultSchema.nullable(),
+});
+
+/**
+ * Formats whole dollars, or "N/A" when TMDB reports 0 for unknown.
+ */
+function dollars(amount: number): string {
+	return amount ? `$${amount.toLocaleString("en-US")}` : "N/A";
+}
+
+/**
+ * GET_TMDB_MOVIE_DETAILS tool for MCP (Model Context Protocol) server.
+ *
+ * This tool fetches the full record of a movie by its TMDB ID: runtime,
+ * genres, money, cast and key crew, keywords, trailers, certifications and
+ * external IDs.
+ */
+export const tmdbMovieDetailsTool = {
+	name: "GET_TMDB_MOVIE_DETAILS",
+	description:
+		"Fetches the full record of a movie by its TMDB ID: runtime, tagline, genres, budget and revenue, production companies, top-billed cast with characters, director, writers and composer, keywords, trailers, certification per country and external IDs.",
+	parameters: tmdbMovieDetailsParams,
+	outputSchema: tmdbMovieDetailsOutput,
+	timeoutMs: config.http.toolDeadlineMs,
+
+	execute: async (
+		params: TmdbMovieDetailsParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
+		const tmdbService = new TmdbService();
+
+		try {
+			const movie = await tmdbService.getMovieDetails(params.movieId, {
+				signal: context.signal,
+			});
+
+			if (!movie) {
+				return emptyResult(
+					params.format,
+					{ movie: null },
+					`No movie found for ID ${params.movieId}.`,
+				);
+			}
+
+			const crew = movie.crew
+				.map((member) => `${member.name} (${member.job})`)
+				.join(", ");
+			const certifications = Object.entries(movie.certifications)
+				.map(([country, certification]) => `${country}: ${certification}`)
+				.join(", ");
+			const trailers = movie.trailers
+				.map((trailer) => `   - ${trailer.name}: ${trailer.url}`)
+				.join("\n");
+
+			return formatResult(
+				params.format,
+				{ movie },
+				{
+					text: dedent`
+						${movie.title} (${movie.releaseDate}) · TMDB ID ${movie.id}
+						💬 Tagline: ${movie.tagline || "N/A"}
+						🎬 IMDB ID: ${movie.imdbId || "N/A"}
+						⭐ Rating: ${movie.rating}
+						⏱️ Runtime: ${movie.runtime ? `${movie.runtime} min` : "N/A"}
+						🎭 Genres: ${movie.genres.join(", ") || "N/A"}
+						🔞 Certification: ${movie.certification || "N/A"}
+						💰 Budget: ${dollars(movie.budget)} · Revenue: ${dollars(movie.revenue)}
+						🏢 Production: ${movie.productionCompanies.join(", ") || "N/A"}
+						📺 Stream on: ${streamingProviders(movie)}
+						📖 Overview: ${movie.description}
+
+						Cast: ${movie.cast.map((member) => `${member.name} as ${member.character}`).join(", ") || "N/A"}
+						Crew: ${crew || "N/A"}
+						Keywords: ${movie.keywords.join(", ") || "N/A"}
+						Certifications: ${certifications || "N/A"}
+						Trailers:
+						${trailers || "   N/A"}
+					`,
+					table: dedent`
+						## ${movie.title} (${movie.releaseDate})
+
+						${markdownTable(
+							["Field", "Value"],
+							[
+								["TMDB ID", movie.id],
+								["IMDB ID", movie.imdbId],
+								["Rating", movie.rating],
+								["Runtime", movie.runtime],
+								["Genres", movie.genres.join(", ")],
+								["Certification", movie.certification],
+								["Budget", dollars(movie.budget)],
+								["Revenue", dollars(movie.revenue)],
+								["Stream on", streamingProviders(movie)],
+							],
+						)}
+
+						${markdownTable(
+							["Name", "Role", "TMDB ID"],
+							[
+								...movie.cast.map((member) => [
+									member.name,
+									member.character,
+									member.id,
+								]),
+								...movie.crew.map((member) => [
+									member.name,
+									member.job,
+									member.id,
+								]),
+							],
+						)}
+					`,
+					compact: [
+						`${movie.title} (${movie.releaseDate}) · ⭐ ${movie.rating} · ${movie.runtime ?? "?"} min · ${movie.imdbId || "N/A"} · tmdb:${movie.id}`,
+						movie.genres.join(", "),
+						`Cast: ${movie.cast.map((member) => member.name).join(", ")}`,
+						`Crew: ${crew}`,
+					].join("\n"),
+				},
+			);
+		} catch (error) {
+			throw toUserError(error, "Error fetching movie details");
+		}
+	},
+} as const;
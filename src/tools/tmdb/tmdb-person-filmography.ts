@@ -0,0 +1,179 @@
+import dedent from "dedent";
+import type { Context, FastMCPSessionAuth } from "fastmcp";
+import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import {
+	emptyResult,
+	formatParam,
+	formatResult,
+	markdownTable,
+} from "../../lib/format.js";
+import {
+	type TmdbCredit,
+	TmdbService,
+	tmdbPersonDetailsResultSchema,
+} from "../../services/tmdb-service.js";
+
+/**
+ * Zod schema for GET_TMDB_PERSON_FILMOGRAPHY tool parameters.
+ */
+const tmdbPersonFilmographyParams = z.object({
+	personId: z.number().describe("The TMDB ID of the person."),
+	mediaType: z
+		.enum(["movie", "tv"])
+		.optional()
+		.describe("Only include movie or TV credits."),
+	department: z
+		.string()
+		.optional()
+		.describe(
+			'Only include credits in this department, e.g. "Acting", "Directing", "Writing", "Production".',
+		),
+	fromYear: z
+		.number()
+		.int()
+		.optional()
+		.describe("Only include credits released in or after this year."),
+	toYear: z
+		.number()
+		.int()
+		.optional()
+		.describe("Only include credits released in or before this year."),
+	sortBy: z
+		.enum(["date", "popularity"])
+		.default("date")
+		.describe("Newest first, or most popular first."),
+	page: z.number().int().min(1).default(1).describe("The page of credits."),
+	pageSize: z
+		.number()
+		.int()
+		.min(1)
+		.max(100)
+		.default(20)
+		.describe("Credits per page."),
+	format: formatParam,
+});
+
+type TmdbPersonFilmographyParams = z.infer<typeof tmdbPersonFilmographyParams>;
+
+/**
+ * Output schema for GET_TMDB_PERSON_FILMOGRAPHY; `person` is null when the
+ * ID is unknown.
+ */
+const tmdbPersonFilmographyOutput = z.object({
+	person: tmdbPersonDetailsResultSchema.nullable(),
+});
+
+/**
+ * One-line summary of a credit.
+ */
+function creditLine(credit: TmdbCredit): string {
+	const episodes = credit.episodeCount
+		? `, ${credit.episodeCount} episode${credit.episodeCount === 1 ? "" : "s"}`
+		: "";
+	return `${credit.title} (${credit.releaseDate?.slice(0, 4) ?? "TBA"}, ${credit.mediaType}) · ${credit.role}${episodes} · tmdb:${credit.id}`;
+}
+
+/**
+ * GET_TMDB_PERSON_FILMOGRAPHY tool for MCP (Model Context Protocol) server.
+ *
+ * This tool fetches a person's biography and their full movie and TV
+ * filmography, cast and crew, from TMDB combined credits.
+ */
+export const tmdbPersonFilmographyTool = {
+	name: "GET_TMDB_PERSON_FILMOGRAPHY",
+	description:
+		"Fetches a person's biography, birth and death dates, place of birth and full movie and TV filmography (cast and crew, including TV guest spots) by their TMDB ID. Credits can be filtered by media type, department and year range, sorted by date or popularity, and paged.",
+	parameters: tmdbPersonFilmographyParams,
+	outputSchema: tmdbPersonFilmographyOutput,
+	timeoutMs: config.http.toolDeadlineMs,
+
+	execute: async (
+		params: TmdbPersonFilmographyParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
+		const tmdbService = new TmdbService();
+
+		try {
+			const person = await tmdbService.getPersonDetails(
+				params.personId,
+				{
+					mediaType: params.mediaType,
+					department: params.department,
+					fromYear: params.fromYear,
+					toYear: params.toYear,
+					sortBy: params.sortBy,
+					page: params.page,
+					pageSize: params.pageSize,
+				},
+				{ signal: context.signal },
+			);
+
+			if (!person) {
+				return emptyResult(
+					params.format,
+					{ person: null },
+					`No person found for ID ${params.personId}.`,
+				);
+			}
+
+			const paging = `Page ${person.page} of ${person.totalPages || 1} (${person.totalCredits} matching credits)`;
+			const formattedCredits = person.credits
+				.map(
+					(credit, i) =>
+						`${(person.page - 1) * params.pageSize + i + 1}. ${creditLine(credit)}`,
+				)
+				.join("\n");
+
+			return formatResult(
+				params.format,
+				{ person },
+				{
+					text: dedent`
+						${person.name} (TMDB ID ${person.id})
+						🎬 IMDB ID: ${person.imdbId || "N/A"}
+						🎂 Born: ${person.birthday ?? "Unknown"}${person.placeOfBirth ? ` in ${person.placeOfBirth}` : ""}
+						${person.deathday ? `🕯️ Died: ${person.deathday}\n` : ""}🎭 Known for: ${person.knownForDepartment}
+						🗂️ Departments: ${person.departments.join(", ") || "N/A"}
+
+						${person.biography}
+
+						Filmography, ${paging}:
+						${formattedCredits || "No credits match the filters."}
+					`,
+					table: dedent`
+						## ${person.name} · ${paging}
+
+						${markdownTable(
+							[
+								"Title",
+								"Year",
+								"Type",
+								"Department",
+								"Role",
+								"Rating",
+								"TMDB ID",
+							],
+							person.credits.map((credit) => [
+								credit.title,
+								credit.releaseDate?.slice(0, 4),
+								credit.mediaType,
+								credit.department,
+								credit.role,
+								credit.rating,
+								credit.id,
+							]),
+						)}
+					`,
+					compact: [
+						`${person.name} · ${person.knownForDepartment} · ${paging} · tmdb:${person.id}`,
+						...person.credits.map(creditLine),
+					].join("\n"),
+				},
+			);
+		} catch (error) {
+			throw toUserError(error, "Error fetching person filmography");
+		}
+	},
+} as const;
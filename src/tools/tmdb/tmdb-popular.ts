@@ -1,6 +1,16 @@
 import dedent from "dedent";
+import type { Context, FastMCPSessionAuth } from "fastmcp";
 import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import { emptyResult, formatParam, formatResult } from "../../lib/format.js";
+import { progressCallOptions } from "../../lib/progress.js";
 import { TmdbService } from "../../services/tmdb-service.js";
+import {
+	tmdbItemsCompact,
+	tmdbItemsOutput,
+	tmdbItemsTable,
+} from "../outputs.js";
 
 /**
  * Zod schema for TMDB Popular tool parameters.
@@ -9,6 +19,7 @@ const tmdbPopularParams = z.object({
 	mediaType: z
 		.enum(["movie", "tv"])
 		.describe("The type of media to search for (movie or tv)"),
+	format: formatParam,
 });
 
 type TmdbPopularParams = z.infer<typeof tmdbPopularParams>;
@@ -22,15 +33,27 @@ export const tmdbPopularTool = {
 	name: "GET_TMDB_POPULAR",
 	description: "Get a list of popular movies or TV shows from TMDB",
 	parameters: tmdbPopularParams,
+	outputSchema: tmdbItemsOutput,
+	timeoutMs: config.http.toolDeadlineMs,
 
-	execute: async (params: TmdbPopularParams) => {
+	execute: async (
+		params: TmdbPopularParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
 		const tmdbService = new TmdbService();
 
 		try {
-			const results = await tmdbService.getPopular(params.mediaType);
+			const results = await tmdbService.getPopular(params.mediaType, {
+				...progressCallOptions(context),
+				enrich: ["imdbId", "watchProviders"],
+			});
 
 			if (!results.length) {
-				return `No popular ${params.mediaType} found.`;
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`No popular ${params.mediaType} found.`,
+				);
 			}
 
 			const formatted = results
@@ -47,19 +70,21 @@ export const tmdbPopularTool = {
 				)
 				.join("\n\n");
 
-			return dedent`
-                Top Popular ${params.mediaType === "movie" ? "Movies" : "TV Shows"}:
+			return formatResult(
+				params.format,
+				{ results },
+				{
+					text: dedent`
+						Top Popular ${params.mediaType === "movie" ? "Movies" : "TV Shows"}:
 
-                ${formatted}
-            `;
+						${formatted}
+					`,
+					table: tmdbItemsTable(results),
+					compact: tmdbItemsCompact(results),
+				},
+			);
 		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("API key")) {
-					return "Error: TMDB API key is not configured. Please set the TMDB_API_KEY environment variable.";
-				}
-				return `Error fetching popular TMDB data: ${error.message}`;
-			}
-			return "An unknown error occurred while fetching popular data from TMDB.";
+			throw toUserError(error, "Error fetching popular TMDB data");
 		}
 	},
 } as const;
@@ -0,0 +1,191 @@
+import type { Context, FastMCPSessionAuth } from "fastmcp";
+import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { NotFoundError, toUserError } from "../../lib/errors.js";
+import { emptyResult, formatParam, formatResult } from "../../lib/format.js";
+import { trackStage } from "../../lib/http.js";
+import { progressCallOptions } from "../../lib/progress.js";
+import { filterByImdbRating } from "../../services/imdb-rating-filter.js";
+import { type TmdbItem, TmdbService } from "../../services/tmdb-service.js";
+import {
+	tmdbItemLine,
+	tmdbItemsCompact,
+	tmdbItemsOutput,
+	tmdbItemsTable,
+} from "../outputs.js";
+
+/**
+ * Zod schema for GET_TMDB_RECOMMENDATIONS tool parameters.
+ */
+const tmdbRecommendationsParams = z.object({
+	mediaType: z
+		.enum(["movie", "tv"])
+		.describe("Whether the seeds and recommendations are movies or TV shows."),
+	seeds: z
+		.array(z.union([z.number().int(), z.string().min(1)]))
+		.min(1)
+		.max(5)
+		.describe(
+			'Titles (strings) or TMDB IDs (numbers) of the movies or shows the user liked, e.g. ["Dark", 1399].',
+		),
+	source: z
+		.enum(["recommendations", "similar", "both"])
+		.default("recommendations")
+		.describe(
+			'"recommendations" are what fans of the seeds also liked; "similar" share their genres and keywords.',
+		),
+	minImdbRating: z
+		.number()
+		.min(1)
+		.max(10)
+		.optional()
+		.describe("Minimum IMDb rating (1-10)"),
+	limit: z
+		.number()
+		.int()
+		.min(1)
+		.max(20)
+		.default(10)
+		.describe("Maximum number of recommendations to return."),
+	format: formatParam,
+});
+
+type TmdbRecommendationsParams = z.infer<typeof tmdbRecommendationsParams>;
+
+/**
+ * GET_TMDB_RECOMMENDATIONS tool for MCP (Model Context Protocol) server.
+ *
+ * This tool recommends movies or TV shows from one or more seed titles,
+ * merging TMDB's per-title lists into one ranking where titles recommended
+ * for several seeds, and near the top of each list, come first.
+ */
+export const tmdbRecommendationsTool = {
+	name: "GET_TMDB_RECOMMENDATIONS",
+	description:
+		"Recommends movies or TV shows based on one or more titles the user liked, given by title or TMDB ID. Merges TMDB's recommendations (or similar titles) for every seed into one ranked list without the seeds or duplicates, optionally keeping only titles with a minimum IMDb rating.",
+	parameters: tmdbRecommendationsParams,
+	outputSchema: tmdbItemsOutput,
+	timeoutMs: config.http.toolDeadlineMs,
+
+	execute: async (
+		params: TmdbRecommendationsParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
+		const tmdbService = new TmdbService();
+		const options = progressCallOptions(context);
+		const kind = params.mediaType === "movie" ? "movies" : "TV shows";
+
+		try {
+			// 1. Resolve seed titles to TMDB IDs, using the top search result
+			const seedsResolved = trackStage(
+				options,
+				"Resolving seeds",
+				params.seeds.length,
+			);
+			const seeds = await Promise.all(
+				params.seeds.map(async (seed) => {
+					try {
+						// Strings are always titles: "1917" and "300" are movies
+						if (typeof seed === "number") return { seed, id: seed };
+						const byTitle = { signal: options.signal, limit: 1 };
+						const [match] = await (params.mediaType === "movie"
+							? tmdbService.getMovieByTitle(seed, byTitle)
+							: tmdbService.getTvShowByTitle(seed, byTitle));
+						return { seed, id: match?.id };
+					} finally {
+						seedsResolved();
+					}
+				}),
+			);
+
+			// 2. Fetch the related titles of every seed, skipping unknown IDs
+			const endpoints =
+				params.source === "both"
+					? (["recommendations", "similar"] as const)
+					: [params.source];
+			const related = async (
+				id: number,
+				endpoint: "recommendations" | "similar",
+			) => {
+				const listOptions = { signal: options.signal };
+				try {
+					return await (endpoint === "recommendations"
+						? tmdbService.getRecommendations(params.mediaType, id, listOptions)
+						: tmdbService.getSimilar(params.mediaType, id, listOptions));
+				} catch (error) {
+					if (error instanceof NotFoundError) return [];
+					throw error;
+				}
+			};
+			const lists = await Promise.all(
+				seeds.flatMap(({ id }) =>
+					id === undefined
+						? []
+						: endpoints.map((endpoint) => related(id, endpoint)),
+				),
+			);
+
+			// 3. Merge into one ranking: each list adds 1 / position to a
+			// title's score, so agreement between seeds outweighs one high spot
+			const seedIds = new Set(seeds.map(({ id }) => id));
+			const ranked = new Map<number, { item: TmdbItem; score: number }>();
+			for (const list of lists) {
+				list.forEach((item, i) => {
+					if (seedIds.has(item.id)) return;
+					const entry = ranked.get(item.id) ?? { item, score: 0 };
+					entry.score += 1 / (i + 1);
+					ranked.set(item.id, entry);
+				});
+			}
+			const candidates = [...ranked.values()]
+				.sort((a, b) => b.score - a.score || b.item.rating - a.item.rating)
+				.map(({ item }) => item);
+
+			// 4. Apply the IMDb rating threshold, or just fill in the top ones
+			let results: TmdbItem[] = [];
+			if (params.minImdbRating) {
+				for await (const item of filterByImdbRating(
+					candidates,
+					params.minImdbRating,
+					options,
+				)) {
+					results.push(item);
+					if (results.length === params.limit) break;
+				}
+			} else {
+				results = await tmdbService.enrich(
+					candidates.slice(0, params.limit),
+					["imdbId", "watchProviders"],
+					options,
+				);
+			}
+
+			const unresolved = seeds
+				.filter(({ id }) => id === undefined)
+				.map(({ seed }) => `"${seed}"`);
+			const note = unresolved.length
+				? `\n\nNo ${params.mediaType === "movie" ? "movie" : "TV show"} found for ${unresolved.join(", ")}.`
+				: "";
+
+			if (!results.length) {
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`No recommended ${kind} found${params.minImdbRating ? ` with an IMDb rating of at least ${params.minImdbRating}` : ""}.${note}`,
+				);
+			}
+
+			return formatResult(
+				params.format,
+				{ results },
+				{
+					text: `Recommended ${kind} for ${params.seeds.join(", ")}:\n\n${results.map(tmdbItemLine).join("\n")}${note}`,
+					table: tmdbItemsTable(results),
+					compact: tmdbItemsCompact(results),
+				},
+			);
+		} catch (error) {
+			throw toUserError(error, "Error fetching recommendations");
+		}
+	},
+} as const;
@@ -0,0 +1,165 @@
+import type { Context, FastMCPSessionAuth } from "fastmcp";
+import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import {
+	emptyResult,
+	formatParam,
+	formatResult,
+	markdownTable,
+} from "../../lib/format.js";
+import { progressCallOptions } from "../../lib/progress.js";
+import {
+	type TmdbReleaseList,
+	TmdbService,
+	tmdbReleaseCalendarSchema,
+	tmdbReleaseLists,
+} from "../../services/tmdb-service.js";
+
+const isoDate = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+/**
+ * Default window of each list, in days relative to today.
+ */
+const defaultWindows: Record<TmdbReleaseList, [number, number]> = {
+	upcoming: [0, 30],
+	now_playing: [-30, 0],
+	airing_today: [0, 0],
+	on_the_air: [0, 7],
+};
+
+/**
+ * The date `days` days from today (UTC), as YYYY-MM-DD.
+ */
+function daysFromToday(days: number): string {
+	return new Date(Date.now() + days * 86_400_000).toISOString().slice(0, 10);
+}
+
+/**
+ * Zod schema for GET_TMDB_RELEASE_CALENDAR tool parameters.
+ */
+const tmdbReleaseCalendarParams = z
+	.object({
+		list: z
+			.enum(tmdbReleaseLists)
+			.describe(
+				'"upcoming" and "now_playing" are movies in theaters; "airing_today" and "on_the_air" (next seven days) are TV shows.',
+			),
+		region: z
+			.string()
+			.length(2)
+			.optional()
+			.describe(
+				`Country whose release dates to use (ISO 3166-1). Defaults to ${config.tmdbApi.watchRegion}.`,
+			),
+		from: isoDate
+			.optional()
+			.describe(
+				"First day of the window (YYYY-MM-DD). Defaults depend on the list, e.g. today for upcoming.",
+			),
+		to: isoDate
+			.optional()
+			.describe(
+				"Last day of the window (YYYY-MM-DD). Defaults depend on the list, e.g. 30 days from today for upcoming.",
+			),
+		releaseType: z
+			.enum(["theatrical", "digital", "physical", "any"])
+			.default("theatrical")
+			.describe("Movies only. Which releases in the region to date them by."),
+		format: formatParam,
+	})
+	.refine((params) => !params.from || !params.to || params.from <= params.to, {
+		path: ["to"],
+		message: '"to" must not be before "from"',
+	});
+
+type TmdbReleaseCalendarParams = z.infer<typeof tmdbReleaseCalendarParams>;
+
+/**
+ * GET_TMDB_RELEASE_CALENDAR tool for MCP (Model Context Protocol) server.
+ *
+ * This tool lists upcoming and now playing movies, or TV shows airing today
+ * or this week, grouped by their release date in a region.
+ */
+export const tmdbReleaseCalendarTool = {
+	name: "GET_TMDB_RELEASE_CALENDAR",
+	description:
+		"Release calendar of upcoming or now playing movies, or of TV shows airing today or in the next seven days, grouped by date within a date window. Movies are dated by their theatrical, digital or physical release in the given region rather than their worldwide release date; TV shows by the episode airing in the window.",
+	parameters: tmdbReleaseCalendarParams,
+	outputSchema: tmdbReleaseCalendarSchema,
+	timeoutMs: config.http.toolDeadlineMs,
+
+	execute: async (
+		params: TmdbReleaseCalendarParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
+		const tmdbService = new TmdbService();
+		const [fromDays, toDays] = defaultWindows[params.list];
+		const window = {
+			region: params.region?.toUpperCase() ?? config.tmdbApi.watchRegion,
+			from: params.from ?? daysFromToday(fromDays),
+			to: params.to ?? daysFromToday(toDays),
+			releaseType: params.releaseType,
+		};
+
+		try {
+			const calendar = await tmdbService.getReleaseCalendar(
+				params.list,
+				window,
+				progressCallOptions(context),
+			);
+
+			if (!calendar.days.length) {
+				return emptyResult(
+					params.format,
+					calendar,
+					`No ${params.list.replaceAll("_", " ")} releases in ${calendar.region} between ${calendar.from} and ${calendar.to}.`,
+				);
+			}
+
+			const releaseLabel = (
+				release: (typeof calendar.days)[number]["releases"][number],
+			) =>
+				release.episode
+					? `S${release.episode.seasonNumber}E${release.episode.episodeNumber} "${release.episode.name}"`
+					: release.releaseType.replace("_", " ");
+
+			return formatResult(params.format, calendar, {
+				text: [
+					`Release calendar (${params.list.replaceAll("_", " ")}, ${calendar.region}, ${calendar.from} to ${calendar.to}):`,
+					...calendar.days.map(
+						(day) =>
+							`\n📅 ${day.date}\n${day.releases
+								.map(
+									(release) =>
+										`   - ${release.title} · ${releaseLabel(release)} · ⭐ ${release.rating} · tmdb:${release.id}`,
+								)
+								.join("\n")}`,
+					),
+				].join("\n"),
+				table: markdownTable(
+					["Date", "Title", "Release", "Rating", "TMDB ID"],
+					calendar.days.flatMap((day) =>
+						day.releases.map((release) => [
+							day.date,
+							release.title,
+							releaseLabel(release),
+							release.rating,
+							release.id,
+						]),
+					),
+				),
+				compact: calendar.days
+					.map(
+						(day) =>
+							`${day.date}: ${day.releases.map((release) => `${release.title} (tmdb:${release.id})`).join(", ")}`,
+					)
+					.join("\n"),
+			});
+		} catch (error) {
+			throw toUserError(error, "Error fetching release calendar");
+		}
+	},
+} as const;
@@ -1,12 +1,22 @@
 import dedent from "dedent";
+import type { Context, FastMCPSessionAuth } from "fastmcp";
 import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import { emptyResult, formatParam, formatResult } from "../../lib/format.js";
 import { TmdbService } from "../../services/tmdb-service.js";
+import {
+	tmdbItemsCompact,
+	tmdbItemsOutput,
+	tmdbItemsTable,
+} from "../outputs.js";
 
 /**
  * Zod schema for GET_TMDB_SEARCH_MOVIE_BY_TITLE tool parameters.
  */
 const tmdbSearchMovieByTitleParams = z.object({
 	title: z.string().describe("The title of the movie to search for."),
+	format: formatParam,
 });
 
 type TmdbSearchMovieByTitleParams = z.infer<
@@ -22,19 +32,31 @@ export const tmdbSearchMovieByTitleTool = {
 	name: "GET_TMDB_SEARCH_MOVIE_BY_TITLE",
 	description: "Searches for movies by title using the TMDB service.",
 	parameters: tmdbSearchMovieByTitleParams,
+	outputSchema: tmdbItemsOutput,
+	timeoutMs: config.http.toolDeadlineMs,
 
-	execute: async (params: TmdbSearchMovieByTitleParams) => {
+	execute: async (
+		params: TmdbSearchMovieByTitleParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
 		const tmdbService = new TmdbService();
 
 		try {
-			const results = await tmdbService.getMovieByTitle(params.title);
+			const results = await tmdbService.getMovieByTitle(params.title, {
+				signal: context.signal,
+				limit: 5,
+				enrich: ["imdbId", "watchProviders"],
+			});
 
 			if (!results.length) {
-				return `No movies found matching "${params.title}".`;
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`No movies found matching "${params.title}".`,
+				);
 			}
 
 			const formatted = results
-				.slice(0, 5) // Limit to top 5 results
 				.map(
 					(movie, i) => dedent`
                     ${i + 1}. Title: ${movie.title} (${movie.releaseDate})
@@ -47,19 +69,21 @@ export const tmdbSearchMovieByTitleTool = {
 				)
 				.join("\n\n");
 
-			return dedent`
-                Here are some movies found matching "${params.title}":
+			return formatResult(
+				params.format,
+				{ results },
+				{
+					text: dedent`
+						Here are some movies found matching "${params.title}":
 
-                ${formatted}
-            `;
+						${formatted}
+					`,
+					table: tmdbItemsTable(results),
+					compact: tmdbItemsCompact(results),
+				},
+			);
 		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("API key")) {
-					return "Error: API key is not configured. Please set the TMDB_API_KEY environment variable.";
-				}
-				return `Error searching for movies by title: ${error.message}`;
-			}
-			return "An unknown error occurred while searching for movies by title.";
+			throw toUserError(error, "Error searching for movies by title");
 		}
 	},
 } as const;
@@ -1,12 +1,22 @@
 import dedent from "dedent";
+import type { Context, FastMCPSessionAuth } from "fastmcp";
 import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import { emptyResult, formatParam, formatResult } from "../../lib/format.js";
 import { TmdbService } from "../../services/tmdb-service.js";
+import {
+	tmdbPeopleCompact,
+	tmdbPeopleOutput,
+	tmdbPeopleTable,
+} from "../outputs.js";
 
 /**
  * Zod schema for GET_TMDB_PERSON_SEARCH tool parameters.
  */
 const tmdbPersonSearchParams = z.object({
 	query: z.string().describe("The name of the person (actor) to search for."),
+	format: formatParam,
 });
 
 type TmdbPersonSearchParams = z.infer<typeof tmdbPersonSearchParams>;
@@ -20,19 +30,31 @@ export const tmdbPersonSearchTool = {
 	name: "GET_TMDB_PERSON_SEARCH",
 	description: "Searches for people (actors) by name using the TMDB service.",
 	parameters: tmdbPersonSearchParams,
+	outputSchema: tmdbPeopleOutput,
+	timeoutMs: config.http.toolDeadlineMs,
 
-	execute: async (params: TmdbPersonSearchParams) => {
+	execute: async (
+		params: TmdbPersonSearchParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
 		const tmdbService = new TmdbService();
 
 		try {
-			const results = await tmdbService.searchPerson(params.query);
+			const results = await tmdbService.searchPerson(params.query, {
+				signal: context.signal,
+			});
 
 			if (!results.length) {
-				return `No people found matching "${params.query}".`;
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`No people found matching "${params.query}".`,
+				);
 			}
 
-			const formatted = results
-				.slice(0, 5) // Limit to top 5 suggestions
+			const top = results.slice(0, 5); // Limit to top 5 suggestions
+
+			const formatted = top
 				.map(
 					(person, i) => dedent`
                     ${i + 1}. Name: ${person.name}
@@ -43,19 +65,21 @@ export const tmdbPersonSearchTool = {
 				)
 				.join("\n\n");
 
-			return dedent`
-                Here are some people found matching "${params.query}":
+			return formatResult(
+				params.format,
+				{ results: top },
+				{
+					text: dedent`
+						Here are some people found matching "${params.query}":
 
-                ${formatted}
-            `;
+						${formatted}
+					`,
+					table: tmdbPeopleTable(top),
+					compact: tmdbPeopleCompact(top),
+				},
+			);
 		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("API key")) {
-					return "Error: API key is not configured. Please set the TMDB_API_KEY environment variable.";
-				}
-				return `Error searching for people: ${error.message}`;
-			}
-			return "An unknown error occurred while searching for people.";
+			throw toUserError(error, "Error searching for people");
 		}
 	},
 } as const;
@@ -1,12 +1,22 @@
 import dedent from "dedent";
+import type { Context, FastMCPSessionAuth } from "fastmcp";
 import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import { emptyResult, formatParam, formatResult } from "../../lib/format.js";
 import { TmdbService } from "../../services/tmdb-service.js";
+import {
+	tmdbItemsCompact,
+	tmdbItemsOutput,
+	tmdbItemsTable,
+} from "../outputs.js";
 
 /**
  * Zod schema for GET_TMDB_SEARCH_TV_BY_TITLE tool parameters.
  */
 const tmdbSearchTvByTitleParams = z.object({
 	title: z.string().describe("The title of the TV show to search for."),
+	format: formatParam,
 });
 
 type TmdbSearchTvByTitleParams = z.infer<typeof tmdbSearchTvByTitleParams>;
@@ -20,19 +30,31 @@ export const tmdbSearchTvByTitleTool = {
 	name: "GET_TMDB_SEARCH_TV_BY_TITLE",
 	description: "Searches for TV shows by title using the TMDB service.",
 	parameters: tmdbSearchTvByTitleParams,
+	outputSchema: tmdbItemsOutput,
+	timeoutMs: config.http.toolDeadlineMs,
 
-	execute: async (params: TmdbSearchTvByTitleParams) => {
+	execute: async (
+		params: TmdbSearchTvByTitleParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
 		const tmdbService = new TmdbService();
 
 		try {
-			const results = await tmdbService.getTvShowByTitle(params.title);
+			const results = await tmdbService.getTvShowByTitle(params.title, {
+				signal: context.signal,
+				limit: 5,
+				enrich: ["imdbId", "watchProviders"],
+			});
 
 			if (!results.length) {
-				return `No TV shows found matching "${params.title}".`;
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`No TV shows found matching "${params.title}".`,
+				);
 			}
 
 			const formatted = results
-				.slice(0, 5) // Limit to top 5 results
 				.map(
 					(tvShow, i) => dedent`
                     ${i + 1}. Title: ${tvShow.title} (${tvShow.releaseDate})
@@ -45,19 +67,21 @@ export const tmdbSearchTvByTitleTool = {
 				)
 				.join("\n\n");
 
-			return dedent`
-                Here are some TV shows found matching "${params.title}":
+			return formatResult(
+				params.format,
+				{ results },
+				{
+					text: dedent`
+						Here are some TV shows found matching "${params.title}":
 
-                ${formatted}
-            `;
+						${formatted}
+					`,
+					table: tmdbItemsTable(results),
+					compact: tmdbItemsCompact(results),
+				},
+			);
 		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("API key")) {
-					return "Error: API key is not configured. Please set the TMDB_API_KEY environment variable.";
-				}
-				return `Error searching for TV shows by title: ${error.message}`;
-			}
-			return "An unknown error occurred while searching for TV shows by title.";
+			throw toUserError(error, "Error searching for TV shows by title");
 		}
 	},
 } as const;
@@ -0,0 +1,148 @@
+import type { Context, FastMCPSessionAuth } from "fastmcp";
+import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import {
+	emptyResult,
+	formatParam,
+	formatResult,
+	markdownTable,
+} from "../../lib/format.js";
+import { progressCallOptions } from "../../lib/progress.js";
+import {
+	type TmdbSearchResult,
+	TmdbService,
+	tmdbMultiSearchResultSchema,
+} from "../../services/tmdb-service.js";
+import { releaseYear } from "../outputs.js";
+
+/**
+ * Zod schema for GET_TMDB_SEARCH tool parameters.
+ */
+const tmdbSearchParams = z.object({
+	query: z
+		.string()
+		.min(1)
+		.describe('A title or name, e.g. "Nolan" or "Succession".'),
+	type: z
+		.enum(["movie", "tv", "person"])
+		.optional()
+		.describe(
+			"What the user most likely means; matching results are ranked first, the others are kept.",
+		),
+	year: z
+		.number()
+		.int()
+		.optional()
+		.describe(
+			"Release (first air) year the user mentioned; matching movies and TV shows are ranked first.",
+		),
+	includeAdult: z
+		.boolean()
+		.default(false)
+		.describe("Whether to include adult content."),
+	page: z
+		.number()
+		.int()
+		.min(1)
+		.max(500)
+		.default(1)
+		.describe("Page of TMDB results (20 per page)."),
+	limit: z
+		.number()
+		.int()
+		.min(1)
+		.max(20)
+		.default(10)
+		.describe("Maximum number of results from the page to return."),
+	format: formatParam,
+});
+
+type TmdbSearchParams = z.infer<typeof tmdbSearchParams>;
+
+/**
+ * One-line summary of a movie, TV show or person result.
+ */
+function resultLine(result: TmdbSearchResult, index: number): string {
+	if (result.type === "person") {
+		return `${index + 1}. [person] ${result.name} · ${result.knownForDepartment} · known for ${result.knownFor} · tmdb:${result.id}`;
+	}
+	return `${index + 1}. [${result.type}] ${result.title} (${result.releaseDate}) · ⭐ ${result.rating} · ${result.imdbId || "N/A"} · tmdb:${result.id}`;
+}
+
+/**
+ * GET_TMDB_SEARCH tool for MCP (Model Context Protocol) server.
+ *
+ * This tool searches movies, TV shows and people at once, for queries that
+ * do not say which of them they mean.
+ */
+export const tmdbSearchTool = {
+	name: "GET_TMDB_SEARCH",
+	description:
+		"Searches movies, TV shows and people at once by title or name, returning one ranked list where each result is typed as movie, tv or person. Use it when the user does not say what kind of title or person they mean; optional type and year hints rank matching results first without dropping the others.",
+	parameters: tmdbSearchParams,
+	outputSchema: tmdbMultiSearchResultSchema,
+	timeoutMs: config.http.toolDeadlineMs,
+
+	execute: async (
+		params: TmdbSearchParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
+		const tmdbService = new TmdbService();
+
+		try {
+			const search = await tmdbService.searchMulti(
+				params.query,
+				{
+					page: params.page,
+					includeAdult: params.includeAdult,
+					type: params.type,
+					year: params.year,
+				},
+				{
+					...progressCallOptions(context),
+					limit: params.limit,
+					enrich: ["imdbId", "watchProviders"],
+				},
+			);
+
+			if (!search.results.length) {
+				return emptyResult(
+					params.format,
+					search,
+					`No movies, TV shows or people found matching "${params.query}"${params.page > 1 ? ` on page ${params.page}` : ""}.`,
+				);
+			}
+
+			const paging = `page ${search.page} of ${search.totalPages}, ${search.totalResults} results`;
+
+			return formatResult(params.format, search, {
+				text: `Results matching "${params.query}" (${paging}):\n\n${search.results.map(resultLine).join("\n")}`,
+				table: markdownTable(
+					["#", "Type", "Title / Name", "Year", "Rating", "IMDB ID", "TMDB ID"],
+					search.results.map((result, i) =>
+						result.type === "person"
+							? [i + 1, result.type, result.name, null, null, null, result.id]
+							: [
+									i + 1,
+									result.type,
+									result.title,
+									releaseYear(result.releaseDate),
+									result.rating,
+									result.imdbId,
+									result.id,
+								],
+					),
+				),
+				compact: search.results
+					.map(
+						(result) =>
+							`${result.type}:${result.id} ${result.type === "person" ? result.name : result.title}`,
+					)
+					.join("\n"),
+			});
+		} catch (error) {
+			throw toUserError(error, "Error searching TMDB");
+		}
+	},
+} as const;
@@ -1,7 +1,19 @@
 import dedent from "dedent";
+import type { Context, FastMCPSessionAuth } from "fastmcp";
 import { z } from "zod";
-import { OmdbService } from "../../services/omdb-service.js";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import { emptyResult, formatParam, formatResult } from "../../lib/format.js";
+import { trackStage } from "../../lib/http.js";
+import { progressCallOptions } from "../../lib/progress.js";
+import { filterByImdbRating } from "../../services/imdb-rating-filter.js";
 import { TmdbService } from "../../services/tmdb-service.js";
+import {
+	tmdbItemLine,
+	tmdbItemsCompact,
+	tmdbItemsOutput,
+	tmdbItemsTable,
+} from "../outputs.js";
 
 /**
  * Zod schema for GET_ENTERTAINMENT_SUGGESTIONS tool parameters.
@@ -25,12 +37,16 @@ const entertainmentSuggestionsParams = z.object({
 		.max(10)
 		.optional()
 		.describe("Minimum IMDb rating (1-10)"),
+	format: formatParam,
 });
 
 type EntertainmentSuggestionsParams = z.infer<
 	typeof entertainmentSuggestionsParams
 >;
 
+/** Number of suggestions returned; OMDB lookups stop once this many match. */
+const maxSuggestions = 5;
+
 /**
  * GET_ENTERTAINMENT_SUGGESTIONS tool for MCP (Model Context Protocol) server.
  *
@@ -41,20 +57,32 @@ export const entertainmentSuggestionsTool = {
 	description:
 		"Suggests entertainment based on genre, release year, and minimum IMDb rating",
 	parameters: entertainmentSuggestionsParams,
+	outputSchema: tmdbItemsOutput,
+	annotations: { streamingHint: true },
+	timeoutMs: config.http.toolDeadlineMs,
 
-	execute: async (params: EntertainmentSuggestionsParams) => {
+	execute: async (
+		params: EntertainmentSuggestionsParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
 		const tmdbService = new TmdbService();
-		const omdbService = new OmdbService();
+		const options = progressCallOptions(context);
 
 		try {
 			// 1. Get genre ID from TMDB
-			const genres = await tmdbService.getGenres(params.mediaType);
+			const genresFetched = trackStage(options, "Looking up genres", 1);
+			const genres = await tmdbService.getGenres(params.mediaType, options);
+			genresFetched();
 			const selectedGenre = genres.find(
 				(g) => g.name.toLowerCase() === params.genre.toLowerCase(),
 			);
 
 			if (!selectedGenre) {
-				return `Genre "${params.genre}" not found for ${params.mediaType}.`;
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`Genre "${params.genre}" not found for ${params.mediaType}.`,
+				);
 			}
 
 			// 2. Discover movies by genre and release year from TMDB
@@ -62,32 +90,45 @@ export const entertainmentSuggestionsTool = {
 				params.mediaType,
 				selectedGenre.id,
 				params.releaseYear,
+				options,
 			);
 
 			if (!tmdbMovies.length) {
-				return `No ${params.mediaType}s found for genre "${params.genre}"${params.releaseYear ? ` in ${params.releaseYear}` : ""}.`;
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`No ${params.mediaType}s found for genre "${params.genre}"${params.releaseYear ? ` in ${params.releaseYear}` : ""}.`,
+				);
 			}
 
-			// 3. Filter by IMDb rating using OMDB
+			// 3. Filter by IMDb rating using OMDB, streaming each match and
+			// stopping once there are enough of them. Details are only fetched
+			// for the candidates actually checked.
 			const suggestedMovies = [];
-			for (const movie of tmdbMovies) {
-				if (movie.imdbId) {
-					const omdbDetails = await omdbService.getByImdbId(movie.imdbId);
-					if (
-						omdbDetails &&
-						parseFloat(omdbDetails.rating) >= (params.minImdbRating ?? 0)
-					) {
-						suggestedMovies.push(movie);
-					}
+			for await (const movie of filterByImdbRating(
+				tmdbMovies,
+				params.minImdbRating ?? 0,
+				options,
+			)) {
+				await context.streamContent({
+					type: "text",
+					text: tmdbItemLine(movie, suggestedMovies.length),
+				});
+				suggestedMovies.push(movie);
+				if (suggestedMovies.length === maxSuggestions) {
+					break;
 				}
 			}
 
 			if (!suggestedMovies.length) {
-				return `No ${params.mediaType}s found matching the criteria (genre: "${params.genre}"${params.releaseYear ? `, year: ${params.releaseYear}` : ""}${params.minImdbRating ? `, min IMDb rating: ${params.minImdbRating}` : ""}).`;
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`No ${params.mediaType}s found matching the criteria (genre: "${params.genre}"${params.releaseYear ? `, year: ${params.releaseYear}` : ""}${params.minImdbRating ? `, min IMDb rating: ${params.minImdbRating}` : ""}).`,
+				);
 			}
 
 			const formatted = suggestedMovies
-				.slice(0, 5) // Limit to top 5 suggestions
 				.map(
 					(item, i) =>
 						dedent`
@@ -101,19 +142,24 @@ export const entertainmentSuggestionsTool = {
 				)
 				.join("\n\n");
 
-			return dedent`
-                Here are some suggested ${params.mediaType}s:
+			return formatResult(
+				params.format,
+				{ results: suggestedMovies },
+				{
+					text: dedent`
+						Here are some suggested ${params.mediaType}s:
 
-                ${formatted}
-            `;
+						${formatted}
+					`,
+					table: tmdbItemsTable(suggestedMovies),
+					compact: tmdbItemsCompact(suggestedMovies),
+				},
+			);
 		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("API key")) {
-					return "Error: API key is not configured. Please set the TMDB_API_KEY and OMDB_API_KEY environment variables.";
-				}
-				return `Error fetching ${params.mediaType} suggestions: ${error.message}`;
-			}
-			return "An unknown error occurred while fetching entertainment suggestions.";
+			throw toUserError(
+				error,
+				`Error fetching ${params.mediaType} suggestions`,
+			);
 		}
 	},
 } as const;
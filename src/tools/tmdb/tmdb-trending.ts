@@ -1,6 +1,16 @@
 import dedent from "dedent";
+import type { Context, FastMCPSessionAuth } from "fastmcp";
 import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import { emptyResult, formatParam, formatResult } from "../../lib/format.js";
+import { progressCallOptions } from "../../lib/progress.js";
 import { TmdbService } from "../../services/tmdb-service.js";
+import {
+	tmdbItemsCompact,
+	tmdbItemsOutput,
+	tmdbItemsTable,
+} from "../outputs.js";
 
 /**
  * Zod schema for TMDB Trending tool parameters.
@@ -12,6 +22,7 @@ const tmdbTrendingParams = z.object({
 	timeWindow: z
 		.enum(["day", "week"])
 		.describe("The time window to search for trending items (day or week)"),
+	format: formatParam,
 });
 
 type TmdbTrendingParams = z.infer<typeof tmdbTrendingParams>;
@@ -26,18 +37,31 @@ export const tmdbTrendingTool = {
 	name: "GET_TMDB_TRENDING",
 	description: "Get a list of trending movies or TV shows from TMDB",
 	parameters: tmdbTrendingParams,
+	outputSchema: tmdbItemsOutput,
+	timeoutMs: config.http.toolDeadlineMs,
 
-	execute: async (params: TmdbTrendingParams) => {
+	execute: async (
+		params: TmdbTrendingParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
 		const tmdbService = new TmdbService();
 
 		try {
 			const results = await tmdbService.getTrending(
 				params.mediaType,
 				params.timeWindow,
+				{
+					...progressCallOptions(context),
+					enrich: ["imdbId", "watchProviders"],
+				},
 			);
 
 			if (!results.length) {
-				return `No trending ${params.mediaType} found for the ${params.timeWindow}.`;
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`No trending ${params.mediaType} found for the ${params.timeWindow}.`,
+				);
 			}
 
 			const formatted = results
@@ -54,19 +78,21 @@ export const tmdbTrendingTool = {
 				)
 				.join("\n\n");
 
-			return dedent`
-                Top Trending ${params.mediaType === "all" ? "Content" : params.mediaType === "movie" ? "Movies" : "TV Shows"} for the ${params.timeWindow}:
+			return formatResult(
+				params.format,
+				{ results },
+				{
+					text: dedent`
+						Top Trending ${params.mediaType === "all" ? "Content" : params.mediaType === "movie" ? "Movies" : "TV Shows"} for the ${params.timeWindow}:
 
-                ${formatted}
-            `;
+						${formatted}
+					`,
+					table: tmdbItemsTable(results),
+					compact: tmdbItemsCompact(results),
+				},
+			);
 		} catch (error) {
-			if (error instanceof Error) {
-				if (error.message.includes("API key")) {
-					return "Error: TMDB API key is not configured. Please set the TMDB_API_KEY environment variable.";
-				}
-				return `Error fetching trending TMDB data: ${error.message}`;
-			}
-			return "An unknown error occurred while fetching trending data from TMDB.";
+			throw toUserError(error, "Error fetching trending TMDB data");
 		}
 	},
 } as const;
@@ -0,0 +1,350 @@
+import dedent from "dedent";
+import type { Context, FastMCPSessionAuth } from "fastmcp";
+import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import {
+	emptyResult,
+	formatParam,
+	formatResult,
+	markdownTable,
+} from "../../lib/format.js";
+import {
+	type TmdbEpisode,
+	TmdbService,
+	tmdbEpisodeDetailsResultSchema,
+	tmdbSeasonResultSchema,
+	tmdbTvDetailsResultSchema,
+} from "../../services/tmdb-service.js";
+import { streamingProviders } from "../outputs.js";
+
+/**
+ * Episode code in the usual S01E02 form.
+ */
+function episodeCode(episode: TmdbEpisode): string {
+	const pad = (n: number) => n.toString().padStart(2, "0");
+	return `S${pad(episode.seasonNumber)}E${pad(episode.episodeNumber)}`;
+}
+
+/**
+ * One-line summary of an episode, or "N/A" when there is none.
+ */
+function episodeLine(episode: TmdbEpisode | null): string {
+	if (!episode) return "N/A";
+	return `${episodeCode(episode)} "${episode.name}" (${episode.airDate ?? "TBA"})`;
+}
+
+/**
+ * Zod schema for GET_TMDB_TV_DETAILS tool parameters.
+ */
+const tmdbTvDetailsParams = z.object({
+	tvId: z.number().describe("The TMDB ID of the TV show."),
+	format: formatParam,
+});
+
+type TmdbTvDetailsParams = z.infer<typeof tmdbTvDetailsParams>;
+
+/**
+ * Output schema for GET_TMDB_TV_DETAILS; `show` is null when the ID is
+ * unknown.
+ */
+const tmdbTvDetailsOutput = z.object({
+	show: tmdbTvDetailsResultSchema.nullable(),
+});
+
+/**
+ * GET_TMDB_TV_DETAILS tool for MCP (Model Context Protocol) server.
+ *
+ * This tool fetches the full record of a TV show by its TMDB ID, including
+ * its seasons and the last and next episodes to air.
+ */
+export const tmdbTvDetailsTool = {
+	name: "GET_TMDB_TV_DETAILS",
+	description:
+		"Fetches the full record of a TV show by its TMDB ID: status, networks, creators, number of seasons and episodes, the last and next episode to air, episode runtime and the season list.",
+	parameters: tmdbTvDetailsParams,
+	outputSchema: tmdbTvDetailsOutput,
+	timeoutMs: config.http.toolDeadlineMs,
+
+	execute: async (
+		params: TmdbTvDetailsParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
+		const tmdbService = new TmdbService();
+
+		try {
+			const show = await tmdbService.getTvShowDetails(params.tvId, {
+				signal: context.signal,
+			});
+
+			if (!show) {
+				return emptyResult(
+					params.format,
+					{ show: null },
+					`No TV show found for ID ${params.tvId}.`,
+				);
+			}
+
+			const seasons = show.seasons.map((season) => [
+				season.seasonNumber,
+				season.name,
+				season.episodeCount,
+				season.airDate,
+			]);
+
+			return formatResult(
+				params.format,
+				{ show },
+				{
+					text: dedent`
+						${show.title} (${show.releaseDate}) · TMDB ID ${show.id}
+						🎬 IMDB ID: ${show.imdbId || "N/A"}
+						📡 Status: ${show.status}
+						⭐ Rating: ${show.rating}
+						🎭 Genres: ${show.genres.join(", ") || "N/A"}
+						📺 Networks: ${show.networks.join(", ") || "N/A"}
+						✍️ Created by: ${show.creators.map((creator) => creator.name).join(", ") || "N/A"}
+						🗂️ Seasons: ${show.numberOfSeasons} · Episodes: ${show.numberOfEpisodes}
+						⏱️ Episode runtime: ${show.runtime ? `${show.runtime} min` : "N/A"}
+						⏮️ Last episode: ${episodeLine(show.lastEpisodeToAir)}
+						⏭️ Next episode: ${episodeLine(show.nextEpisodeToAir)}
+						🍿 Stream on: ${streamingProviders(show)}
+						📖 Overview: ${show.description}
+					`,
+					table: dedent`
+						## ${show.title} (${show.releaseDate}) · ${show.status}
+
+						${markdownTable(["Season", "Name", "Episodes", "First aired"], seasons)}
+					`,
+					compact: [
+						`${show.title} (${show.releaseDate}) · ${show.status} · ${show.numberOfSeasons} seasons · ${show.imdbId || "N/A"} · tmdb:${show.id}`,
+						`Last: ${episodeLine(show.lastEpisodeToAir)}`,
+						`Next: ${episodeLine(show.nextEpisodeToAir)}`,
+					].join("\n"),
+				},
+			);
+		} catch (error) {
+			throw toUserError(error, "Error fetching TV show details");
+		}
+	},
+} as const;
+
+/**
+ * Zod schema for GET_TMDB_TV_SEASON tool parameters.
+ */
+const tmdbTvSeasonParams = z.object({
+	tvId: z.number().describe("The TMDB ID of the TV show."),
+	seasonNumber: z
+		.number()
+		.int()
+		.min(0)
+		.describe("The season number; 0 for specials."),
+	format: formatParam,
+});
+
+type TmdbTvSeasonParams = z.infer<typeof tmdbTvSeasonParams>;
+
+/**
+ * Output schema for GET_TMDB_TV_SEASON; `season` is null when the show or
+ * season is unknown.
+ */
+const tmdbTvSeasonOutput = z.object({
+	season: tmdbSeasonResultSchema.nullable(),
+});
+
+/**
+ * GET_TMDB_TV_SEASON tool for MCP (Model Context Protocol) server.
+ *
+ * This tool fetches a season of a TV show with its episode list.
+ */
+export const tmdbTvSeasonTool = {
+	name: "GET_TMDB_TV_SEASON",
+	description:
+		"Fetches a season of a TV show by the show's TMDB ID and the season number, with every episode's air date, rating and overview.",
+	parameters: tmdbTvSeasonParams,
+	outputSchema: tmdbTvSeasonOutput,
+	timeoutMs: config.http.toolDeadlineMs,
+
+	execute: async (
+		params: TmdbTvSeasonParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
+		const tmdbService = new TmdbService();
+
+		try {
+			const season = await tmdbService.getSeasonDetails(
+				params.tvId,
+				params.seasonNumber,
+				{ signal: context.signal },
+			);
+
+			if (!season) {
+				return emptyResult(
+					params.format,
+					{ season: null },
+					`No season ${params.seasonNumber} found for TV show ID ${params.tvId}.`,
+				);
+			}
+
+			const formattedEpisodes = season.episodes
+				.map(
+					(episode) => dedent`
+                ${episodeCode(episode)}. ${episode.name} (${episode.airDate ?? "TBA"})
+                   Rating: ${episode.rating}
+                   Overview: ${episode.overview}
+            `,
+				)
+				.join("\n");
+
+			return formatResult(
+				params.format,
+				{ season },
+				{
+					text: dedent`
+						${season.name} of TV show ID ${season.tvId} (${season.airDate ?? "TBA"}):
+
+						Overview: ${season.overview}
+
+						Episodes:
+						${formattedEpisodes || "No episodes found in this season."}
+					`,
+					table: dedent`
+						## ${season.name} (TV show ID: ${season.tvId})
+
+						${markdownTable(
+							["Episode", "Name", "Air date", "Rating", "Runtime"],
+							season.episodes.map((episode) => [
+								episodeCode(episode),
+								episode.name,
+								episode.airDate,
+								episode.rating,
+								episode.runtime,
+							]),
+						)}
+					`,
+					compact: [
+						`${season.name} · ${season.episodes.length} episodes · tv:${season.tvId}`,
+						...season.episodes.map(
+							(episode) => `${episodeLine(episode)} · ⭐ ${episode.rating}`,
+						),
+					].join("\n"),
+				},
+			);
+		} catch (error) {
+			throw toUserError(error, "Error fetching TV season details");
+		}
+	},
+} as const;
+
+/**
+ * Zod schema for GET_TMDB_TV_EPISODE tool parameters.
+ */
+const tmdbTvEpisodeParams = z.object({
+	tvId: z.number().describe("The TMDB ID of the TV show."),
+	seasonNumber: z
+		.number()
+		.int()
+		.min(0)
+		.describe("The season number; 0 for specials."),
+	episodeNumber: z.number().int().min(1).describe("The episode number."),
+	format: formatParam,
+});
+
+type TmdbTvEpisodeParams = z.infer<typeof tmdbTvEpisodeParams>;
+
+/**
+ * Output schema for GET_TMDB_TV_EPISODE; `episode` is null when the show,
+ * season or episode is unknown.
+ */
+const tmdbTvEpisodeOutput = z.object({
+	episode: tmdbEpisodeDetailsResultSchema.nullable(),
+});
+
+/**
+ * GET_TMDB_TV_EPISODE tool for MCP (Model Context Protocol) server.
+ *
+ * This tool fetches a single episode of a TV show with its guest stars and
+ * crew.
+ */
+export const tmdbTvEpisodeTool = {
+	name: "GET_TMDB_TV_EPISODE",
+	description:
+		"Fetches a single episode of a TV show by the show's TMDB ID, season and episode number: overview, air date, rating, runtime, guest stars and crew.",
+	parameters: tmdbTvEpisodeParams,
+	outputSchema: tmdbTvEpisodeOutput,
+	timeoutMs: config.http.toolDeadlineMs,
+
+	execute: async (
+		params: TmdbTvEpisodeParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
+		const tmdbService = new TmdbService();
+
+		try {
+			const episode = await tmdbService.getEpisodeDetails(
+				params.tvId,
+				params.seasonNumber,
+				params.episodeNumber,
+				{ signal: context.signal },
+			);
+
+			if (!episode) {
+				return emptyResult(
+					params.format,
+					{ episode: null },
+					`No episode S${params.seasonNumber}E${params.episodeNumber} found for TV show ID ${params.tvId}.`,
+				);
+			}
+
+			const guestStars = episode.guestStars
+				.map((star) => `${star.name} as ${star.character}`)
+				.join(", ");
+			const crew = episode.crew
+				.map((member) => `${member.name} (${member.job})`)
+				.join(", ");
+
+			return formatResult(
+				params.format,
+				{ episode },
+				{
+					text: dedent`
+						${episodeCode(episode)}: ${episode.name} (TV show ID ${episode.tvId})
+						📅 Air date: ${episode.airDate ?? "TBA"}
+						⭐ Rating: ${episode.rating}
+						⏱️ Runtime: ${episode.runtime ? `${episode.runtime} min` : "N/A"}
+						🖼️ Still: ${episode.stillUrl || "N/A"}
+						📖 Overview: ${episode.overview}
+
+						Guest stars: ${guestStars || "N/A"}
+						Crew: ${crew || "N/A"}
+					`,
+					table: dedent`
+						## ${episodeCode(episode)}: ${episode.name}
+
+						${markdownTable(
+							["Name", "Role", "TMDB ID"],
+							[
+								...episode.guestStars.map((star) => [
+									star.name,
+									star.character,
+									star.id,
+								]),
+								...episode.crew.map((member) => [
+									member.name,
+									member.job,
+									member.id,
+								]),
+							],
+						)}
+					`,
+					compact: [
+						`${episodeLine(episode)} · ⭐ ${episode.rating} · tv:${episode.tvId}`,
+						`Guest stars: ${episode.guestStars.map((star) => star.name).join(", ") || "N/A"}`,
+					].join("\n"),
+				},
+			);
+		} catch (error) {
+			throw toUserError(error, "Error fetching TV episode details");
+		}
+	},
+} as const;
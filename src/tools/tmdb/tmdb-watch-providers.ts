@@ -0,0 +1,459 @@
+import type { Context, FastMCPSessionAuth } from "fastmcp";
+import { z } from "zod";
+import { config } from "../../lib/config.js";
+import { toUserError } from "../../lib/errors.js";
+import {
+	emptyResult,
+	formatParam,
+	formatResult,
+	markdownTable,
+} from "../../lib/format.js";
+import { progressCallOptions } from "../../lib/progress.js";
+import {
+	type TmdbRegionWatchOptions,
+	TmdbService,
+	type TmdbWatchProvider,
+	tmdbDiscoverSorts,
+	tmdbItemSchema,
+	tmdbMonetizationTypes,
+	tmdbRegionWatchOptionsSchema,
+	tmdbWatchProviderSchema,
+} from "../../services/tmdb-service.js";
+import {
+	regionParam,
+	releaseYear,
+	tmdbItemLine,
+	tmdbItemsCompact,
+	tmdbItemsOutput,
+	tmdbItemsTable,
+} from "../outputs.js";
+
+const isoDate = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+/**
+ * Kinds of offers in TmdbRegionWatchOptions, with their labels.
+ */
+const offerKinds = [
+	["stream", "Stream"],
+	["free", "Free"],
+	["ads", "Free with ads"],
+	["rent", "Rent"],
+	["buy", "Buy"],
+] as const;
+
+const providerNames = (providers: TmdbWatchProvider[]) =>
+	providers.map((provider) => provider.name).join(", ");
+
+/**
+ * Zod schema for GET_WATCH_PROVIDERS tool parameters.
+ */
+const watchProvidersParams = z
+	.object({
+		mediaType: z
+			.enum(["movie", "tv"])
+			.describe("Whether the title is a movie or a TV show."),
+		id: z.number().int().optional().describe("The TMDB ID of the title."),
+		title: z
+			.string()
+			.min(1)
+			.optional()
+			.describe("The title to look up when the TMDB ID is not known."),
+		regions: z
+			.array(regionParam)
+			.min(1)
+			.max(10)
+			.default([config.tmdbApi.watchRegion])
+			.describe(
+				`Countries to list options for (ISO 3166-1), e.g. ["US", "GB"]. Defaults to ${config.tmdbApi.watchRegion}.`,
+			),
+		format: formatParam,
+	})
+	.refine((params) => params.id !== undefined || params.title, {
+		path: ["id"],
+		message: 'Either "id" or "title" is required',
+	});
+
+type WatchProvidersParams = z.infer<typeof watchProvidersParams>;
+
+/**
+ * Output schema for GET_WATCH_PROVIDERS; `item` is null when the title is
+ * not found.
+ */
+const watchProvidersOutput = z.object({
+	item: tmdbItemSchema
+		.pick({ id: true, title: true, type: true, releaseDate: true })
+		.nullable(),
+	regions: z.array(tmdbRegionWatchOptionsSchema),
+});
+
+/**
+ * GET_WATCH_PROVIDERS tool for MCP (Model Context Protocol) server.
+ *
+ * This tool answers "where can I watch it?" for a movie or TV show in one or
+ * more countries, split by how each provider offers it.
+ */
+export const watchProvidersTool = {
+	name: "GET_WATCH_PROVIDERS",
+	description:
+		"Where to watch a movie or TV show, given by TMDB ID or title, in one or more countries: the services streaming it by subscription, for free or free with ads, and the stores renting or selling it, with a TMDB watch page linking to each provider via JustWatch.",
+	parameters: watchProvidersParams,
+	outputSchema: watchProvidersOutput,
+	timeoutMs: config.http.toolDeadlineMs,
+
+	execute: async (
+		params: WatchProvidersParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
+		const tmdbService = new TmdbService();
+		const options = { signal: context.signal };
+		const kind = params.mediaType === "movie" ? "movie" : "TV show";
+
+		try {
+			// A title is resolved to its TMDB ID first; the providers request
+			// then returns the title's details as well
+			let id = params.id;
+			if (id === undefined) {
+				const byTitle = { ...options, limit: 1 };
+				const [match] = await (params.mediaType === "movie"
+					? tmdbService.getMovieByTitle(params.title ?? "", byTitle)
+					: tmdbService.getTvShowByTitle(params.title ?? "", byTitle));
+				id = match?.id;
+			}
+			const found =
+				id === undefined
+					? null
+					: await tmdbService.getWatchProviders(
+							params.mediaType,
+							id,
+							params.regions,
+							options,
+						);
+
+			if (!found) {
+				return emptyResult(
+					params.format,
+					{ item: null, regions: [] },
+					`No ${kind} found for ${params.id !== undefined ? `ID ${params.id}` : `"${params.title}"`}.`,
+				);
+			}
+
+			const { regions } = found;
+			const item = {
+				id: found.item.id,
+				title: found.item.title,
+				type: found.item.type,
+				releaseDate: found.item.releaseDate,
+			};
+			const heading = `${item.title} (${releaseYear(item.releaseDate) ?? "TBA"}, tmdb:${item.id})`;
+			if (!regions.length) {
+				return emptyResult(
+					params.format,
+					{ item, regions },
+					`${heading} is not available to watch in ${params.regions.join(", ")}.`,
+				);
+			}
+
+			const offers = (where: TmdbRegionWatchOptions) =>
+				offerKinds.flatMap(([key, label]) =>
+					where[key].length ? [[label, providerNames(where[key])]] : [],
+				);
+			const missing = params.regions.filter(
+				(code) => !regions.some((where) => where.region === code),
+			);
+			const note = missing.length
+				? `\n\nNot available in ${missing.join(", ")}.`
+				: "";
+
+			return formatResult(
+				params.format,
+				{ item, regions },
+				{
+					text: `Where to watch ${heading}:\n${regions
+						.map(
+							(where) =>
+								`\n📍 ${where.region} · ${where.link}\n${offers(where)
+									.map(([label, names]) => `   - ${label}: ${names}`)
+									.join("\n")}`,
+						)
+						.join("\n")}${note}`,
+					table: `## ${heading}\n\n${markdownTable(
+						["Region", ...offerKinds.map(([, label]) => label), "Link"],
+						regions.map((where) => [
+							where.region,
+							...offerKinds.map(([key]) => providerNames(where[key])),
+							where.link,
+						]),
+					)}${note}`,
+					compact: regions
+						.map(
+							(where) =>
+								`${where.region}: ${offers(where)
+									.map(([label, names]) => `${label.toLowerCase()} ${names}`)
+									.join("; ")}`,
+						)
+						.join("\n"),
+				},
+			);
+		} catch (error) {
+			throw toUserError(error, "Error fetching watch providers");
+		}
+	},
+} as const;
+
+/**
+ * Zod schema for GET_WATCH_PROVIDER_LIST tool parameters.
+ */
+const watchProviderListParams = z.object({
+	mediaType: z
+		.enum(["movie", "tv"])
+		.describe("List the providers of movies or of TV shows."),
+	region: regionParam
+		.optional()
+		.describe(
+			`Country to list providers for (ISO 3166-1). Defaults to ${config.tmdbApi.watchRegion}.`,
+		),
+	format: formatParam,
+});
+
+type WatchProviderListParams = z.infer<typeof watchProviderListParams>;
+
+const watchProviderListOutput = z.object({
+	region: z.string(),
+	providers: z.array(tmdbWatchProviderSchema),
+});
+
+/**
+ * GET_WATCH_PROVIDER_LIST tool for MCP (Model Context Protocol) server.
+ *
+ * This tool lists the streaming services and stores available in a country,
+ * with the IDs GET_TMDB_DISCOVER and GET_TMDB_DISCOVER_BY_PROVIDER take.
+ */
+export const watchProviderListTool = {
+	name: "GET_WATCH_PROVIDER_LIST",
+	description:
+		"Lists the streaming services and stores that offer movies or TV shows in a country, most prominent first, with their TMDB watch provider IDs.",
+	parameters: watchProviderListParams,
+	outputSchema: watchProviderListOutput,
+	timeoutMs: config.http.toolDeadlineMs,
+
+	execute: async (
+		params: WatchProviderListParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
+		const tmdbService = new TmdbService();
+		const regionCode = params.region ?? config.tmdbApi.watchRegion;
+
+		try {
+			const providers = await tmdbService.getProviderList(
+				params.mediaType,
+				regionCode,
+				{ signal: context.signal },
+			);
+			const result = { region: regionCode, providers };
+
+			if (!providers.length) {
+				return emptyResult(
+					params.format,
+					result,
+					`No watch providers found in ${regionCode}.`,
+				);
+			}
+
+			return formatResult(params.format, result, {
+				text: `${params.mediaType === "movie" ? "Movie" : "TV"} watch providers in ${regionCode}:\n\n${providers
+					.map(
+						(provider, i) => `${i + 1}. ${provider.name} · id:${provider.id}`,
+					)
+					.join("\n")}`,
+				table: markdownTable(
+					["#", "Provider", "Provider ID"],
+					providers.map((provider, i) => [i + 1, provider.name, provider.id]),
+				),
+				compact: providers
+					.map((provider) => `${provider.name} (${provider.id})`)
+					.join(", "),
+			});
+		} catch (error) {
+			throw toUserError(error, "Error fetching watch provider list");
+		}
+	},
+} as const;
+
+/**
+ * Zod schema for GET_TMDB_DISCOVER_BY_PROVIDER tool parameters.
+ */
+const tmdbDiscoverByProviderParams = z
+	.object({
+		mediaType: z
+			.enum(["movie", "tv"])
+			.describe("The type of media to discover."),
+		providers: z
+			.array(z.union([z.number().int(), z.string().min(1)]))
+			.min(1)
+			.max(10)
+			.describe(
+				'Watch provider names (strings) or TMDB IDs (numbers); results need to be on one of them, e.g. ["Netflix", 337].',
+			),
+		region: regionParam
+			.optional()
+			.describe(
+				`Country of the providers (ISO 3166-1). Defaults to ${config.tmdbApi.watchRegion}.`,
+			),
+		monetizationTypes: z
+			.array(z.enum(tmdbMonetizationTypes))
+			.min(1)
+			.default(["flatrate"])
+			.describe(
+				'How the title is offered: "flatrate" (subscription), "free", "ads", "rent" or "buy"; any of them.',
+			),
+		releasedFrom: isoDate
+			.optional()
+			.describe("Earliest release or first air date (YYYY-MM-DD)."),
+		releasedTo: isoDate
+			.optional()
+			.describe("Latest release or first air date (YYYY-MM-DD)."),
+		sortBy: z
+			.enum(tmdbDiscoverSorts)
+			.default("popularity")
+			.describe('Sort order, descending; "revenue" is for movies only.'),
+		page: z
+			.number()
+			.int()
+			.min(1)
+			.max(500)
+			.default(1)
+			.describe("Page of TMDB results (20 per page)."),
+		limit: z
+			.number()
+			.int()
+			.min(1)
+			.max(20)
+			.default(10)
+			.describe("Maximum number of results from the page to return."),
+		format: formatParam,
+	})
+	.superRefine((params, ctx) => {
+		if (params.sortBy === "revenue" && params.mediaType !== "movie") {
+			ctx.addIssue({
+				code: "custom",
+				path: ["sortBy"],
+				message: '"revenue" is only supported for movies',
+			});
+		}
+		if (
+			params.releasedFrom &&
+			params.releasedTo &&
+			params.releasedFrom > params.releasedTo
+		) {
+			ctx.addIssue({
+				code: "custom",
+				path: ["releasedTo"],
+				message: '"releasedTo" must not be before "releasedFrom"',
+			});
+		}
+	});
+
+type TmdbDiscoverByProviderParams = z.infer<
+	typeof tmdbDiscoverByProviderParams
+>;
+
+/**
+ * GET_TMDB_DISCOVER_BY_PROVIDER tool for MCP (Model Context Protocol) server.
+ *
+ * This tool discovers what is on a set of streaming services or stores in a
+ * country, for queries like "new on Netflix US this week".
+ */
+export const tmdbDiscoverByProviderTool = {
+	name: "GET_TMDB_DISCOVER_BY_PROVIDER",
+	description:
+		'Discovers movies or TV shows available on any of a set of watch providers in a country, given by name (e.g. "Netflix") or TMDB provider ID, optionally only by subscription, free, with ads, to rent or to buy, and released in a date window, e.g. "new on Netflix US this week".',
+	parameters: tmdbDiscoverByProviderParams,
+	outputSchema: tmdbItemsOutput,
+	timeoutMs: config.http.toolDeadlineMs,
+
+	execute: async (
+		params: TmdbDiscoverByProviderParams,
+		context: Context<FastMCPSessionAuth>,
+	) => {
+		const tmdbService = new TmdbService();
+		const options = progressCallOptions(context);
+		const regionCode = params.region ?? config.tmdbApi.watchRegion;
+		const kind = params.mediaType === "movie" ? "movies" : "TV shows";
+
+		try {
+			// Providers may be given by name; resolve them against the region's
+			// list, preferring an exact match over the most prominent partial one
+			let known: TmdbWatchProvider[] = [];
+			if (params.providers.some((provider) => typeof provider === "string")) {
+				known = await tmdbService.getProviderList(
+					params.mediaType,
+					regionCode,
+					options,
+				);
+			}
+			const resolve = (provider: number | string) => {
+				// Strings are always names, even if made of digits
+				if (typeof provider === "number") return provider;
+				const name = provider.toLowerCase();
+				return (
+					known.find((p) => p.name.toLowerCase() === name) ??
+					known.find((p) => p.name.toLowerCase().includes(name))
+				)?.id;
+			};
+			const resolved = params.providers.map((provider) => ({
+				provider,
+				id: resolve(provider),
+			}));
+
+			const unknown = resolved.filter(({ id }) => id === undefined);
+			if (unknown.length) {
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`Unknown watch provider(s) in ${regionCode}: ${unknown.map(({ provider }) => provider).join(", ")}. Known providers: ${providerNames(known.slice(0, 30))}.`,
+				);
+			}
+
+			const results = await tmdbService.discover(
+				params.mediaType,
+				{
+					watchProviders: resolved.flatMap(({ id }) => id ?? []),
+					watchRegion: regionCode,
+					watchMonetizationTypes: params.monetizationTypes,
+					releasedFrom: params.releasedFrom,
+					releasedTo: params.releasedTo,
+					sortBy: params.sortBy,
+					page: params.page,
+				},
+				{
+					...options,
+					limit: params.limit,
+					enrich: ["imdbId", "watchProviders"],
+				},
+			);
+
+			const on = `${params.providers.join(", ")} in ${regionCode}`;
+			if (!results.length) {
+				return emptyResult(
+					params.format,
+					{ results: [] },
+					`No ${kind} found on ${on}${params.page > 1 ? ` on page ${params.page}` : ""}.`,
+				);
+			}
+
+			return formatResult(
+				params.format,
+				{ results },
+				{
+					text: `${params.mediaType === "movie" ? "Movies" : "TV shows"} on ${on} (page ${params.page}):\n\n${results.map(tmdbItemLine).join("\n")}`,
+					table: tmdbItemsTable(results),
+					compact: tmdbItemsCompact(results),
+				},
+			);
+		} catch (error) {
+			throw toUserError(error, "Error discovering titles by watch provider");
+		}
+	},
+} as const;
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { before, beforeEach, describe, it } from "node:test";
+
+process.env.CACHE_ENABLED = "false";
+
+const { ResponseCache } = await import("../dist/lib/cache.js");
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const trendingUrl =
+	"https://api.themoviedb.org/3/trending/movie/day?api_key=abcdefgh12345";
+const movieUrl =
+	"https://api.themoviedb.org/3/movie/27205?api_key=abcdefgh12345";
+
+describe("ResponseCache", () => {
+	let dir;
+	let now;
+
+	before(async () => {
+		dir = await mkdtemp(join(tmpdir(), "entertainment-mcp-cache-"));
+	});
+
+	beforeEach((t) => {
+		now = Date.parse("2026-01-01T00:00:00Z");
+		t.mock.method(Date, "now", () => now);
+	});
+
+	const createCache = (options = {}) =>
+		new ResponseCache({
+			enabled: true,
+			filePath: join(dir, `responses-${Math.random()}.json`),
+			maxEntries: 100,
+			clearOnStartup: false,
+			...options,
+		});
+
+	it("expires entries after the TTL of their endpoint family", () => {
+		const cache = createCache();
+		cache.set(trendingUrl, { page: 1 });
+		cache.set(movieUrl, { id: 27205 });
+
+		now += 14 * MINUTE;
+		assert.deepEqual(cache.get(trendingUrl), { page: 1 });
+
+		now += 2 * MINUTE;
+		assert.equal(cache.get(trendingUrl), undefined);
+		assert.deepEqual(cache.get(movieUrl), { id: 27205 });
+
+		now += 12 * HOUR;
+		assert.equal(cache.get(movieUrl), undefined);
+		assert.deepEqual(cache.stats, { hits: 2, misses: 2, entries: 0 });
+	});
+
+	it("keys entries without credentials", () => {
+		const cache = createCache();
+		cache.set(movieUrl, { id: 27205 });
+
+		assert.deepEqual(
+			cache.get(movieUrl.replace("abcdefgh12345", "another-key")),
+			{ id: 27205 },
+		);
+	});
+
+	it("evicts the least recently used entries beyond maxEntries", () => {
+		const cache = createCache({ maxEntries: 2 });
+		cache.set(`${movieUrl}&page=1`, 1);
+		cache.set(`${movieUrl}&page=2`, 2);
+		cache.get(`${movieUrl}&page=1`);
+		cache.set(`${movieUrl}&page=3`, 3);
+
+		assert.equal(cache.get(`${movieUrl}&page=1`), 1);
+		assert.equal(cache.get(`${movieUrl}&page=2`), undefined);
+		assert.equal(cache.get(`${movieUrl}&page=3`), 3);
+	});
+
+	it("loads only unexpired entries from disk", async () => {
+		const filePath = join(dir, "persisted.json");
+		await writeFile(
+			filePath,
+			JSON.stringify({
+				version: 1,
+				entries: [
+					[
+						"https://api.themoviedb.org/3/movie/1",
+						{ value: 1, expiresAt: now },
+					],
+					[
+						"https://api.themoviedb.org/3/movie/2",
+						{ value: 2, expiresAt: now + MINUTE },
+					],
+				],
+			}),
+		);
+
+		const cache = createCache({ filePath });
+		assert.equal(cache.get("https://api.themoviedb.org/3/movie/1"), undefined);
+		assert.equal(cache.get("https://api.themoviedb.org/3/movie/2"), 2);
+	});
+
+	it("ignores what was persisted when cleared on startup", async () => {
+		const filePath = join(dir, "cleared.json");
+		await writeFile(
+			filePath,
+			JSON.stringify({
+				version: 1,
+				entries: [
+					[
+						"https://api.themoviedb.org/3/movie/2",
+						{ value: 2, expiresAt: now + MINUTE },
+					],
+				],
+			}),
+		);
+
+		const cache = createCache({ filePath, clearOnStartup: true });
+		assert.equal(cache.get("https://api.themoviedb.org/3/movie/2"), undefined);
+	});
+});
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+
+// Configuration is read on import, so the environment is set up first.
+process.env.HTTP_MODE = "replay";
+process.env.HTTP_FIXTURES_DIR = fileURLToPath(
+	new URL("./fixtures", import.meta.url),
+);
+process.env.CACHE_ENABLED = "false";
+
+const { fetchJson } = await import("../dist/lib/http.js");
+const {
+	AuthRejectedError,
+	InvalidResponseError,
+	NotFoundError,
+	RateLimitedError,
+	UpstreamUnavailableError,
+} = await import("../dist/lib/errors.js");
+
+const tmdbUrl = (path) =>
+	`https://api.themoviedb.org/3${path}?api_key=abcdefgh12345&language=en-US`;
+
+/** Retries without waiting, so retried failures replay instantly. */
+const noDelay = { baseDelayMs: 0, maxDelayMs: 0 };
+
+describe("fetchJson in replay mode", () => {
+	it("returns the recorded response, validated against the schema", async () => {
+		const movie = await fetchJson(
+			tmdbUrl("/movie/27205"),
+			undefined,
+			z.object({ id: z.number(), title: z.string() }),
+		);
+
+		assert.deepEqual(movie, { id: 27205, title: "Inception" });
+	});
+
+	it("maps 404 to NotFoundError without retrying", async () => {
+		await assert.rejects(fetchJson(tmdbUrl("/movie/404")), (error) => {
+			assert.ok(error instanceof NotFoundError);
+			assert.equal(error.code, "NOT_FOUND");
+			assert.equal(error.status, 404);
+			return true;
+		});
+	});
+
+	it("maps 401 to AuthRejectedError", async () => {
+		await assert.rejects(fetchJson(tmdbUrl("/movie/401")), (error) => {
+			assert.ok(error instanceof AuthRejectedError);
+			assert.equal(error.code, "AUTH_REJECTED");
+			return true;
+		});
+	});
+
+	it("maps 429 to RateLimitedError with its Retry-After once retries run out", async () => {
+		await assert.rejects(
+			fetchJson(tmdbUrl("/movie/429"), undefined, undefined, {
+				...noDelay,
+				maxAttempts: 2,
+			}),
+			(error) => {
+				assert.ok(error instanceof RateLimitedError);
+				assert.equal(error.code, "RATE_LIMITED");
+				assert.equal(error.retryAfterMs, 0);
+				return true;
+			},
+		);
+	});
+
+	it("maps 5xx to UpstreamUnavailableError once retries run out", async () => {
+		await assert.rejects(
+			fetchJson(tmdbUrl("/movie/503"), undefined, undefined, {
+				...noDelay,
+				maxAttempts: 2,
+			}),
+			(error) => {
+				assert.ok(error instanceof UpstreamUnavailableError);
+				assert.equal(error.code, "UPSTREAM_UNAVAILABLE");
+				assert.equal(error.status, 503);
+				return true;
+			},
+		);
+	});
+
+	it("maps a body that is not JSON to InvalidResponseError", async () => {
+		await assert.rejects(fetchJson(tmdbUrl("/configuration")), (error) => {
+			assert.ok(error instanceof InvalidResponseError);
+			assert.equal(error.code, "INVALID_RESPONSE");
+			return true;
+		});
+	});
+
+	it("maps a response that fails the schema to InvalidResponseError", async () => {
+		await assert.rejects(
+			fetchJson(
+				tmdbUrl("/movie/27205"),
+				undefined,
+				z.object({ id: z.string() }),
+			),
+			InvalidResponseError,
+		);
+	});
+
+	it("fails on a request without a recorded fixture", async () => {
+		await assert.rejects(fetchJson(tmdbUrl("/movie/1")), {
+			message: /^No recorded fixture for GET /,
+		});
+	});
+});